@@ -1,84 +1,477 @@
-import React, { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { zipSync } from 'fflate';
 import { 
   Upload, 
   FileImage, 
-  Download, 
   X, 
-  GripVertical, 
   CheckCircle,
   AlertCircle,
-  Loader2
+  Loader2,
+  Eye,
+  LayoutGrid
 } from 'lucide-react';
 import ImageUploader from './components/ImageUploader';
 import ImagePreview from './components/ImagePreview';
 import ConversionSettings from './components/ConversionSettings';
-import { generatePDF } from './utils/pdfGenerator';
-import type { ImageFile, ConversionOptions } from './types';
+import ConversionReport from './components/ConversionReport';
+import DuplicateReview from './components/DuplicateReview';
+import PagePreview from './components/PagePreview';
+import { detectImageFormat } from './utils/formatDetection';
+import { createPreviewUrl, readTiffPageSizes } from './utils/imageDecoders';
+import { NEUTRAL_ADJUSTMENTS } from './utils/imageAdjustments';
+import { findDuplicates, getPerceptualHash, hashFile } from './utils/imageHash';
+import { readCaptureDate } from './utils/imageInfo';
+import { createThumbnail } from './utils/imageThumbnail';
+import { mergeOptions } from './utils/conversionOptions';
+import { downloadFile } from './utils/download';
+import { getPartFilenames } from './utils/outputSplit';
+import { applyPreset, getDefaultPreset, isProtectionDropped } from './utils/presetStorage';
+import { PASSWORDS_NOT_SAVED_MESSAGE } from './utils/securityOptions';
+import { renderPdfPages } from './utils/pdfImport';
+import { getPageGeometry } from './utils/scanPreview';
+import { generatePDFInWorker } from './utils/pdfWorkerClient';
+import { clearWorkspace, loadWorkspace, saveWorkspace } from './utils/workspaceStorage';
+import type {
+  ImageFile,
+  ConversionOptions,
+  DuplicateMatch,
+  GenerationStage,
+  PageGeometry,
+  PDFGenerationResult,
+} from './types';
+
+const DEFAULT_OPTIONS: ConversionOptions = {
+  pageSize: 'A4',
+  customPageSize: { width: 210, height: 297, unit: 'mm' },
+  orientation: 'portrait',
+  margin: 20,
+  quality: 'high',
+  filename: 'images-converted',
+  layout: {
+    rows: 1,
+    columns: 1,
+    gutter: 20,
+    fit: 'fit',
+    alignX: 'center',
+    alignY: 'center',
+  },
+  pageText: {
+    header: '',
+    footer: '',
+    pageNumbers: false,
+    captions: false,
+  },
+  background: {
+    mode: 'none',
+    color: '#ffffff',
+  },
+  metadata: {
+    title: '',
+    author: '',
+    subject: '',
+    keywords: '',
+  },
+  bookmarks: false,
+  processing: {
+    mode: 'photo',
+    filter: 'color',
+  },
+  adjustments: NEUTRAL_ADJUSTMENTS,
+  ocr: false,
+  split: {
+    mode: 'none',
+    imagesPerPart: 50,
+    maxSizeMb: 20,
+  },
+  security: {
+    enabled: false,
+    encryption: 'aes-256',
+    userPassword: '',
+    ownerPassword: '',
+    permissions: {
+      printing: true,
+      copying: true,
+      modifying: true,
+    },
+  },
+};
+
+// Wait for a pause in changes before saving the workspace, e.g. while typing a filename
+const SAVE_DELAY = 500;
+// Thumbnails are made one after another and added to the list in batches of this many
+const THUMBNAIL_BATCH_SIZE = 8;
+// In document mode the page is found in each photo in batches of this many, and kept with the photo
+const PAGE_GEOMETRY_BATCH_SIZE = 8;
+
+// A split output is downloaded as one ZIP of numbered PDFs
+function downloadDocuments(documents: Uint8Array[], filename: string) {
+  const name = filename.trim().replace(/\.pdf$/i, '') || 'images-converted';
+  if (documents.length === 1) {
+    downloadFile(documents[0], 'application/pdf', `${name}.pdf`);
+    return;
+  }
+
+  const partNames = getPartFilenames(name, documents.length);
+  // PDF images are already compressed, so the parts are stored rather than deflated
+  const zip = zipSync(
+    Object.fromEntries(partNames.map((partName, index) => [partName, documents[index]])),
+    { level: 0 }
+  );
+  downloadFile(zip, 'application/zip', `${name}.zip`);
+}
+
+function revokeImageUrls(image: ImageFile) {
+  URL.revokeObjectURL(image.url);
+  if (image.thumbnailUrl) {
+    URL.revokeObjectURL(image.thumbnailUrl);
+  }
+}
+
+function describeOutput(documents: Uint8Array[]) {
+  return documents.length > 1 ? `${documents.length} PDFs generated successfully!` : 'PDF generated successfully!';
+}
 
 function App() {
   const [images, setImages] = useState<ImageFile[]>([]);
+  const [options, setOptions] = useState<ConversionOptions>(() => {
+    const defaultPreset = getDefaultPreset();
+    return defaultPreset ? applyPreset(defaultPreset, DEFAULT_OPTIONS) : DEFAULT_OPTIONS;
+  });
+  const [view, setView] = useState<'images' | 'preview'>('images');
   const [isConverting, setIsConverting] = useState(false);
   const [conversionProgress, setConversionProgress] = useState(0);
+  const [conversionStage, setConversionStage] = useState<GenerationStage>('converting');
   const [error, setError] = useState<string | null>(null);
-  const [success, setSuccess] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(() => {
+    const defaultPreset = getDefaultPreset();
+    return defaultPreset && isProtectionDropped(defaultPreset, DEFAULT_OPTIONS) ? PASSWORDS_NOT_SAVED_MESSAGE : null;
+  });
+  const [isCancelling, setIsCancelling] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [pendingResult, setPendingResult] = useState<{
+    result: PDFGenerationResult;
+    options: ConversionOptions;
+  } | null>(null);
+  // An upload containing duplicates, waiting for the user to skip or keep them
+  const [pendingUpload, setPendingUpload] = useState<{
+    images: ImageFile[];
+    duplicates: { image: ImageFile; original: ImageFile; kind: DuplicateMatch['kind'] }[];
+  } | null>(null);
+  // Nothing is saved until the previous session has been restored, so it isn't overwritten
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [isMakingThumbnails, setIsMakingThumbnails] = useState(false);
+  // Images whose thumbnail has been tried, so one that can't be made isn't tried again
+  const thumbnailAttemptsRef = useRef(new Set<number>());
+  const [isFindingPages, setIsFindingPages] = useState(false);
+  const pageGeometryAttemptsRef = useRef(new Set<number>());
+  // Ids only go up, so images from different uploads never share one
+  const nextIdRef = useRef(Date.now());
+  const isUploadingRef = useRef(false);
+  const [isUploading, setIsUploading] = useState(false);
 
-  const handleImagesUpload = useCallback((files: File[]) => {
-    setError(null);
-    setSuccess(null);
-    
-    if (images.length + files.length > 500) {
-      setError(`Maximum 500 images allowed. You're trying to add ${files.length} more to ${images.length} existing images.`);
+  useEffect(() => {
+    let cancelled = false;
+
+    loadWorkspace()
+      .then(({ images: restoredImages, options: restoredOptions }) => {
+        if (cancelled) {
+          restoredImages.forEach(revokeImageUrls);
+          return;
+        }
+        const messages: string[] = [];
+        if (restoredImages.length > 0) {
+          nextIdRef.current = Math.max(nextIdRef.current, ...restoredImages.map(image => image.id + 1));
+          setImages(prev => [...restoredImages, ...prev]);
+          messages.push(`Restored ${restoredImages.length} item${restoredImages.length > 1 ? 's' : ''} from your last session`);
+        }
+        // The last session's settings win over the default preset, which clears them when it's chosen.
+        // Settings added since they were saved keep their defaults.
+        if (restoredOptions) {
+          const merged = mergeOptions(DEFAULT_OPTIONS, restoredOptions);
+          // Passwords aren't saved, so protection is set up again rather than exporting with empty ones
+          if (merged.security.enabled) {
+            messages.push(PASSWORDS_NOT_SAVED_MESSAGE);
+          }
+          setOptions({ ...merged, security: { ...merged.security, enabled: false } });
+        }
+        if (messages.length > 0) {
+          setSuccess(messages.join('. '));
+        }
+      })
+      .catch(err => console.error('Failed to restore the workspace:', err))
+      .finally(() => {
+        if (!cancelled) {
+          setIsRestoring(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isRestoring) {
       return;
     }
+    const timer = window.setTimeout(() => {
+      saveWorkspace(images, options).catch(err => console.error('Failed to save the workspace:', err));
+    }, SAVE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [images, options, isRestoring]);
 
-    const validFiles = files.filter(file => {
-      const isValidType = file.type.startsWith('image/');
-      const isValidSize = file.size <= 10 * 1024 * 1024; // 10MB limit
-      return isValidType && isValidSize;
-    });
+  // New and restored images alike get their thumbnails in the background
+  useEffect(() => {
+    if (isMakingThumbnails) {
+      return;
+    }
+    const batch = images
+      .filter(image => !image.thumbnailUrl && !thumbnailAttemptsRef.current.has(image.id))
+      .slice(0, THUMBNAIL_BATCH_SIZE);
+    if (batch.length === 0) {
+      return;
+    }
+
+    setIsMakingThumbnails(true);
+    (async () => {
+      const thumbnails = new Map<number, string>();
+      for (const image of batch) {
+        thumbnailAttemptsRef.current.add(image.id);
+        const thumbnailUrl = await createThumbnail(image.url);
+        if (thumbnailUrl) {
+          thumbnails.set(image.id, thumbnailUrl);
+        }
+      }
+
+      setImages(prev => {
+        // Images removed in the meantime don't need theirs
+        const listedIds = new Set(prev.map(image => image.id));
+        thumbnails.forEach((thumbnailUrl, id) => {
+          if (!listedIds.has(id)) {
+            URL.revokeObjectURL(thumbnailUrl);
+          }
+        });
+        return prev.map(image => {
+          const thumbnailUrl = thumbnails.get(image.id);
+          return thumbnailUrl ? { ...image, thumbnailUrl } : image;
+        });
+      });
+      setIsMakingThumbnails(false);
+    })();
+  }, [images, isMakingThumbnails]);
+
+  // The grid, the editor, the page preview and the PDF all scan a photo with the page found here
+  const documentMode = options.processing.mode === 'document';
+  useEffect(() => {
+    if (!documentMode || isFindingPages) {
+      return;
+    }
+    const batch = images
+      .filter(image => image.format !== 'pdf' && !image.pageGeometry && !pageGeometryAttemptsRef.current.has(image.id))
+      .slice(0, PAGE_GEOMETRY_BATCH_SIZE);
+    if (batch.length === 0) {
+      return;
+    }
+
+    setIsFindingPages(true);
+    (async () => {
+      const geometries = new Map<number, PageGeometry>();
+      for (const image of batch) {
+        pageGeometryAttemptsRef.current.add(image.id);
+        try {
+          geometries.set(image.id, await getPageGeometry(image.url, undefined));
+        } catch (err) {
+          // The PDF generator reports images it can't read
+          console.error(`Failed to find the page in ${image.name}:`, err);
+        }
+      }
+
+      setImages(prev => prev.map(image => {
+        const pageGeometry = geometries.get(image.id);
+        return pageGeometry ? { ...image, pageGeometry } : image;
+      }));
+      setIsFindingPages(false);
+    })();
+  }, [images, documentMode, isFindingPages]);
+
+  const addUploadedImages = useCallback((uploaded: ImageFile[], skippedDuplicates = 0) => {
+    setImages(prev => [...prev, ...uploaded]);
+
+    const parts = [];
+    if (uploaded.length > 0) {
+      parts.push(`Successfully added ${uploaded.length} item${uploaded.length > 1 ? 's' : ''}`);
+    }
+    if (skippedDuplicates > 0) {
+      parts.push(`skipped ${skippedDuplicates} duplicate${skippedDuplicates > 1 ? 's' : ''}`);
+    }
+    if (parts.length > 0) {
+      const message = parts.join(', ');
+      setSuccess(message.charAt(0).toUpperCase() + message.slice(1));
+    }
+  }, []);
+
+  const handleImagesUpload = useCallback(async (files: File[]) => {
+    // Files are read one upload at a time, so each upload sees the images added by the one before
+    if (isUploadingRef.current) {
+      return;
+    }
+    isUploadingRef.current = true;
+    setIsUploading(true);
+
+    try {
+      setError(null);
+      setSuccess(null);
+
+      if (pendingUpload) {
+        setError('Choose whether to keep the duplicates of the previous upload first.');
+        return;
+      }
+
+      if (images.length + files.length > 500) {
+        setError(`Maximum 500 images allowed. You're trying to add ${files.length} more to ${images.length} existing images.`);
+        return;
+      }
+
+      const newImages: ImageFile[] = [];
+      let skippedCount = 0;
+
+      for (const file of files) {
+        const isValidSize = file.size <= 10 * 1024 * 1024; // 10MB limit
+        const format = isValidSize ? await detectImageFormat(file) : null;
+        if (!format) {
+          skippedCount++;
+          continue;
+        }
+
+        try {
+          // Pages of a PDF or TIFF share the file's hash and are told apart by their page index
+          const contentHash = await hashFile(file);
 
-    if (validFiles.length !== files.length) {
-      setError('Some files were skipped. Only image files under 10MB are allowed.');
+          if (format === 'pdf') {
+            // Every page of a PDF becomes an item that can be moved between the images
+            const pageUrls = await renderPdfPages(file);
+            pageUrls.forEach((url, pageIndex) => {
+              newImages.push({
+                id: nextIdRef.current++,
+                file,
+                url,
+                name: `${file.name} (page ${pageIndex + 1})`,
+                size: file.size,
+                format,
+                pageIndex,
+                // No perceptual hash, since document pages look too much alike when shrunk that far
+                contentHash,
+              });
+            });
+            continue;
+          }
+
+          // Each page of a multi-page TIFF becomes its own image
+          const pageCount = format === 'tiff' ? (await readTiffPageSizes(file)).length : 1;
+          const capturedAt = (await readCaptureDate(file, format))?.getTime();
+          for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+            const url = await createPreviewUrl(file, format, pageIndex);
+            newImages.push({
+              id: nextIdRef.current++,
+              file,
+              url,
+              name: pageCount > 1 ? `${file.name} (page ${pageIndex + 1})` : file.name,
+              size: file.size,
+              format,
+              ...(pageCount > 1 && { pageIndex }),
+              contentHash,
+              // Pages of a multi-page TIFF are usually scanned documents that look alike when shrunk,
+              // like PDF pages, so they get no perceptual hash
+              ...(pageCount === 1 && { perceptualHash: await getPerceptualHash(url) }),
+              capturedAt,
+            });
+          }
+        } catch (err) {
+          console.error(`Failed to read image ${file.name}:`, err);
+          skippedCount++;
+        }
+      }
+
+      if (images.length + newImages.length > 500) {
+        newImages.forEach(revokeImageUrls);
+        setError(`Maximum 500 images allowed. These files contain ${newImages.length} images, and ${images.length} are already added.`);
+        return;
+      }
+
+      if (skippedCount > 0) {
+        setError('Some files were skipped. Only JPG, PNG, GIF, WebP, AVIF, HEIC, TIFF, BMP and PDF files under 10MB are allowed.');
+      }
+
+      // Let the user decide whether to add files that are already in the list
+      const duplicates = findDuplicates([...images, ...newImages]);
+      const newDuplicates = newImages.filter(image => duplicates.has(image.id));
+      if (newDuplicates.length > 0) {
+        const byId = new Map([...images, ...newImages].map(image => [image.id, image]));
+        setPendingUpload({
+          images: newImages,
+          duplicates: newDuplicates.map(image => {
+            const { kind, originalId } = duplicates.get(image.id)!;
+            return { image, original: byId.get(originalId)!, kind };
+          }),
+        });
+        return;
+      }
+
+      addUploadedImages(newImages);
+    } finally {
+      isUploadingRef.current = false;
+      setIsUploading(false);
     }
+  }, [images, pendingUpload, addUploadedImages]);
 
-    const newImages: ImageFile[] = validFiles.map((file, index) => ({
-      id: Date.now() + index,
-      file,
-      url: URL.createObjectURL(file),
-      name: file.name,
-      size: file.size,
-    }));
+  const handleSkipDuplicates = useCallback(() => {
+    if (!pendingUpload) {
+      return;
+    }
+    const duplicateIds = new Set(pendingUpload.duplicates.map(({ image }) => image.id));
+    pendingUpload.images
+      .filter(image => duplicateIds.has(image.id))
+      .forEach(revokeImageUrls);
+    addUploadedImages(pendingUpload.images.filter(image => !duplicateIds.has(image.id)), duplicateIds.size);
+    setPendingUpload(null);
+  }, [pendingUpload, addUploadedImages]);
 
-    setImages(prev => [...prev, ...newImages]);
-    
-    if (validFiles.length > 0) {
-      setSuccess(`Successfully added ${validFiles.length} image${validFiles.length > 1 ? 's' : ''}`);
+  const handleKeepDuplicates = useCallback(() => {
+    if (pendingUpload) {
+      addUploadedImages(pendingUpload.images);
+      setPendingUpload(null);
     }
-  }, [images.length]);
+  }, [pendingUpload, addUploadedImages]);
 
   const handleImageRemove = useCallback((id: number) => {
     setImages(prev => {
       const imageToRemove = prev.find(img => img.id === id);
       if (imageToRemove) {
-        URL.revokeObjectURL(imageToRemove.url);
+        revokeImageUrls(imageToRemove);
       }
       return prev.filter(img => img.id !== id);
     });
   }, []);
 
-  const handleImageReorder = useCallback((dragIndex: number, hoverIndex: number) => {
+  const handleImagesReorder = useCallback((reorder: (images: ImageFile[]) => ImageFile[]) => {
+    setImages(reorder);
+  }, []);
+
+  const handleImagesRemove = useCallback((ids: Set<number>) => {
     setImages(prev => {
-      const draggedImage = prev[dragIndex];
-      const newImages = [...prev];
-      newImages.splice(dragIndex, 1);
-      newImages.splice(hoverIndex, 0, draggedImage);
-      return newImages;
+      prev.filter(img => ids.has(img.id)).forEach(revokeImageUrls);
+      return prev.filter(img => !ids.has(img.id));
     });
   }, []);
 
+  const handleImageUpdate = useCallback((id: number, updates: Partial<Omit<ImageFile, 'id'>>) => {
+    setImages(prev => prev.map(img => (img.id === id ? { ...img, ...updates } : img)));
+  }, []);
+
   const handleClearAll = useCallback(() => {
-    images.forEach(image => URL.revokeObjectURL(image.url));
+    images.forEach(revokeImageUrls);
     setImages([]);
+    clearWorkspace().catch(err => console.error('Failed to clear the saved workspace:', err));
     setError(null);
     setSuccess('All images cleared');
   }, [images]);
@@ -89,37 +482,81 @@ function App() {
       return;
     }
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     setIsConverting(true);
+    setIsCancelling(false);
     setConversionProgress(0);
+    setConversionStage('converting');
+    setPendingResult(null);
     setError(null);
     setSuccess(null);
 
     try {
-      const pdfBytes = await generatePDF(images, options, (progress) => {
+      const result = await generatePDFInWorker(images, options, (progress, stage) => {
         setConversionProgress(progress);
-      });
+        setConversionStage(stage);
+      }, abortController.signal);
+
+      // Let the user decide what to do before downloading an incomplete PDF
+      if (result.results.some(item => item.status !== 'succeeded')) {
+        setPendingResult({ result, options });
+        return;
+      }
 
-      const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-      const url = URL.createObjectURL(blob);
-      
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = options.filename || 'images-converted.pdf';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-
-      setSuccess(`PDF generated successfully! ${images.length} images converted.`);
+      downloadDocuments(result.documents, options.filename);
+      setSuccess(`${describeOutput(result.documents)} ${result.results.length} images converted.`);
     } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        setSuccess('PDF conversion cancelled');
+        return;
+      }
       setError('Failed to generate PDF. Please try again.');
       console.error('PDF generation error:', err);
     } finally {
+      abortControllerRef.current = null;
       setIsConverting(false);
+      setIsCancelling(false);
       setConversionProgress(0);
     }
   }, [images]);
 
+  const handleRetryConversion = useCallback(() => {
+    if (pendingResult) {
+      handleConvertToPDF(pendingResult.options);
+    }
+  }, [pendingResult, handleConvertToPDF]);
+
+  const handleRemoveFailedAndDownload = useCallback(() => {
+    if (!pendingResult) {
+      return;
+    }
+
+    const { result, options } = pendingResult;
+    const failedIds = new Set(
+      result.results.filter(item => item.status !== 'succeeded').map(item => item.id)
+    );
+    setImages(prev => {
+      prev.filter(img => failedIds.has(img.id)).forEach(revokeImageUrls);
+      return prev.filter(img => !failedIds.has(img.id));
+    });
+
+    downloadDocuments(result.documents, options.filename);
+    setPendingResult(null);
+    const convertedCount = result.results.length - failedIds.size;
+    setSuccess(`${describeOutput(result.documents)} ${convertedCount} images converted, ${failedIds.size} removed.`);
+  }, [pendingResult]);
+
+  const handleCancelDownload = useCallback(() => {
+    setPendingResult(null);
+  }, []);
+
+  const handleCancelConversion = useCallback(() => {
+    setIsCancelling(true);
+    abortControllerRef.current?.abort();
+  }, []);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
       <div className="container mx-auto px-4 py-8">
@@ -157,6 +594,7 @@ function App() {
         <div className="mb-8">
           <ImageUploader 
             onImagesUpload={handleImagesUpload}
+            isUploading={isUploading}
             maxImages={500}
             currentCount={images.length}
           />
@@ -170,32 +608,65 @@ function App() {
               <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
                 <div className="flex items-center justify-between mb-6">
                   <h2 className="text-xl font-semibold text-gray-900">
-                    Images ({images.length}/500)
+                    {view === 'images' ? `Images (${images.length}/500)` : 'Page Preview'}
                   </h2>
-                  <button
-                    onClick={handleClearAll}
-                    className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200 flex items-center"
-                  >
-                    <X className="w-4 h-4 mr-2" />
-                    Clear All
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <div className="flex border border-gray-300 rounded-lg overflow-hidden">
+                      <button
+                        onClick={() => setView('images')}
+                        className={`px-3 py-2 text-sm flex items-center transition-colors duration-200 ${
+                          view === 'images' ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        <LayoutGrid className="w-4 h-4 mr-2" />
+                        Images
+                      </button>
+                      <button
+                        onClick={() => setView('preview')}
+                        className={`px-3 py-2 text-sm flex items-center border-l border-gray-300 transition-colors duration-200 ${
+                          view === 'preview' ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        <Eye className="w-4 h-4 mr-2" />
+                        Preview
+                      </button>
+                    </div>
+                    <button
+                      onClick={handleClearAll}
+                      className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200 flex items-center"
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Clear All
+                    </button>
+                  </div>
                 </div>
 
-                <ImagePreview
-                  images={images}
-                  onImageRemove={handleImageRemove}
-                  onImageReorder={handleImageReorder}
-                />
+                {view === 'images' ? (
+                  <ImagePreview
+                    images={images}
+                    onImageRemove={handleImageRemove}
+                    onImageUpdate={handleImageUpdate}
+                    onImagesReorder={handleImagesReorder}
+                    onImagesRemove={handleImagesRemove}
+                    showGroupControls={options.split.mode === 'groups'}
+                    processing={options.processing}
+                    adjustments={options.adjustments}
+                  />
+                ) : (
+                  <PagePreview images={images} options={options} />
+                )}
               </div>
             </div>
 
             {/* Conversion Settings */}
             <div className="lg:col-span-1">
               <ConversionSettings
+                options={options}
+                onOptionsChange={setOptions}
                 onConvert={handleConvertToPDF}
                 isConverting={isConverting}
                 progress={conversionProgress}
-                imageCount={images.length}
+                images={images}
               />
             </div>
           </div>
@@ -211,7 +682,9 @@ function App() {
                   Converting Images to PDF
                 </h3>
                 <p className="text-gray-600 mb-4">
-                  Processing {images.length} images...
+                  {conversionStage === 'recognizing-text'
+                    ? `Recognizing text in ${images.length} images...`
+                    : `Processing ${images.length} images...`}
                 </p>
                 <div className="w-full bg-gray-200 rounded-full h-3 mb-2">
                   <div
@@ -219,14 +692,41 @@ function App() {
                     style={{ width: `${conversionProgress}%` }}
                   ></div>
                 </div>
-                <p className="text-sm text-gray-500">
+                <p className="text-sm text-gray-500 mb-6">
                   {Math.round(conversionProgress)}% Complete
                 </p>
+                <button
+                  onClick={handleCancelConversion}
+                  disabled={isCancelling}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isCancelling ? 'Cancelling...' : 'Cancel'}
+                </button>
               </div>
             </div>
           </div>
         )}
 
+        {/* Duplicate Review */}
+        {pendingUpload && (
+          <DuplicateReview
+            uploadCount={pendingUpload.images.length}
+            duplicates={pendingUpload.duplicates}
+            onSkipDuplicates={handleSkipDuplicates}
+            onKeepAll={handleKeepDuplicates}
+          />
+        )}
+
+        {/* Conversion Report */}
+        {pendingResult && (
+          <ConversionReport
+            results={pendingResult.result.results}
+            onRetry={handleRetryConversion}
+            onRemoveFailed={handleRemoveFailedAndDownload}
+            onCancel={handleCancelDownload}
+          />
+        )}
+
         {/* Empty State */}
         {images.length === 0 && (
           <div className="text-center py-12">
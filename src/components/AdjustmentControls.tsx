@@ -0,0 +1,102 @@
+import React from 'react';
+import { NEUTRAL_ADJUSTMENTS, isNeutralAdjustments } from '../utils/imageAdjustments';
+import type { ImageAdjustments } from '../types';
+
+interface AdjustmentControlsProps {
+  adjustments: ImageAdjustments;
+  onChange: (updates: Partial<ImageAdjustments>) => void;
+}
+
+const AdjustmentControls: React.FC<AdjustmentControlsProps> = ({ adjustments, onChange }) => {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={adjustments.grayscale}
+            onChange={(e) => onChange({ grayscale: e.target.checked })}
+            className="mr-2 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+          />
+          Grayscale
+        </label>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={adjustments.autoLevels}
+            onChange={(e) => onChange({ autoLevels: e.target.checked })}
+            className="mr-2 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+          />
+          Auto levels
+        </label>
+      </div>
+
+      <AdjustmentSlider
+        label="Brightness"
+        value={adjustments.brightness}
+        min={-100}
+        max={100}
+        onChange={(brightness) => onChange({ brightness })}
+      />
+      <AdjustmentSlider
+        label="Contrast"
+        value={adjustments.contrast}
+        min={-100}
+        max={100}
+        onChange={(contrast) => onChange({ contrast })}
+      />
+
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={adjustments.binarize}
+          onChange={(e) => onChange({ binarize: e.target.checked })}
+          className="mr-2 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+        />
+        Black and white
+      </label>
+      {adjustments.binarize && (
+        <AdjustmentSlider
+          label="Threshold"
+          value={adjustments.threshold}
+          min={0}
+          max={255}
+          onChange={(threshold) => onChange({ threshold })}
+        />
+      )}
+
+      {!isNeutralAdjustments(adjustments) && (
+        <button
+          onClick={() => onChange(NEUTRAL_ADJUSTMENTS)}
+          className="text-xs text-blue-600 hover:text-blue-700"
+        >
+          Reset adjustments
+        </button>
+      )}
+    </div>
+  );
+};
+
+const AdjustmentSlider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, onChange }) => {
+  return (
+    <label className="block text-xs text-gray-600">
+      {label}: {value}
+      <input
+        type="range"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full h-2 mt-1 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+      />
+    </label>
+  );
+};
+
+export default AdjustmentControls;
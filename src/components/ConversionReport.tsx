@@ -0,0 +1,90 @@
+import React from 'react';
+import { AlertCircle, RefreshCw, Trash2, X } from 'lucide-react';
+import type { ImageConversionResult, ImageFailureReason } from '../types';
+
+interface ConversionReportProps {
+  results: ImageConversionResult[];
+  onRetry: () => void;
+  onRemoveFailed: () => void;
+  onCancel: () => void;
+}
+
+const REASON_LABELS: Record<ImageFailureReason, string> = {
+  'unsupported-format': 'Unsupported format',
+  'decode-error': 'Could not be decoded',
+  'corrupt-png': 'Corrupt PNG',
+  'unreadable-pdf': 'PDF could not be read',
+};
+
+const ConversionReport: React.FC<ConversionReportProps> = ({
+  results,
+  onRetry,
+  onRemoveFailed,
+  onCancel,
+}) => {
+  const problems = results.filter(result => result.status !== 'succeeded');
+  const succeededCount = results.length - problems.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 max-w-lg w-full mx-4">
+        <div className="flex items-center mb-2">
+          <AlertCircle className="w-6 h-6 text-amber-500 mr-3 flex-shrink-0" />
+          <h3 className="text-lg font-semibold text-gray-900">
+            {problems.length} of {results.length} images could not be converted
+          </h3>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          {succeededCount > 0
+            ? `The PDF contains the other ${succeededCount} image${succeededCount > 1 ? 's' : ''}.`
+            : 'No images could be added to the PDF.'}
+        </p>
+
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg mb-6">
+          {problems.map((result) => (
+            <li key={result.id} className="p-3 flex items-start">
+              <X className="w-4 h-4 text-red-500 mr-2 mt-0.5 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate" title={result.name}>
+                  {result.name}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {result.status === 'skipped' ? 'Skipped' : 'Failed'}
+                  {result.reason && `: ${REASON_LABELS[result.reason]}`}
+                  {result.message && ` (${result.message})`}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors duration-200 flex items-center justify-center"
+          >
+            <X className="w-4 h-4 mr-2" />
+            Cancel Download
+          </button>
+          <button
+            onClick={onRetry}
+            className="px-4 py-2 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors duration-200 flex items-center justify-center"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry
+          </button>
+          <button
+            onClick={onRemoveFailed}
+            disabled={succeededCount === 0}
+            className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors duration-200 flex items-center justify-center disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Remove Failed &amp; Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConversionReport;
@@ -1,43 +1,122 @@
-import React, { useState, useCallback } from 'react';
+import React, { useCallback } from 'react';
 import { Download, Settings, FileText, Loader2 } from 'lucide-react';
-import type { ConversionOptions } from '../types';
+import AdjustmentControls from './AdjustmentControls';
+import PresetManager from './PresetManager';
+import { countPartPages } from '../utils/outputSplit';
+import { MAX_GRID_SIZE } from '../utils/pageLayout';
+import { getPasswordError } from '../utils/securityOptions';
+import type {
+  ConversionOptions,
+  CustomPageSize,
+  DocumentMetadata,
+  GridLayout,
+  ImageAdjustments,
+  ImageFile,
+  ImageProcessing,
+  OutputSplit,
+  PageBackground,
+  PageTextOptions,
+  PdfPermissions,
+  PdfSecurity,
+} from '../types';
 
 interface ConversionSettingsProps {
+  options: ConversionOptions;
+  onOptionsChange: (update: (prev: ConversionOptions) => ConversionOptions) => void;
   onConvert: (options: ConversionOptions) => void;
   isConverting: boolean;
   progress: number;
-  imageCount: number;
+  images: ImageFile[];
+}
+
+const LAYOUT_PRESETS = [
+  { label: '1 per page', rows: 1, columns: 1 },
+  { label: '2 per page (2 × 1)', rows: 2, columns: 1 },
+  { label: '4 per page (2 × 2)', rows: 2, columns: 2 },
+  { label: '6 per page (3 × 2)', rows: 3, columns: 2 },
+  { label: '9 per page (3 × 3)', rows: 3, columns: 3 },
+  { label: '12 per page (4 × 3)', rows: 4, columns: 3 },
+  { label: '20 per page (5 × 4)', rows: 5, columns: 4 },
+];
+
+function clampGridSize(value: number): number {
+  return Math.min(MAX_GRID_SIZE, Math.max(1, Math.round(value) || 1));
 }
 
 const ConversionSettings: React.FC<ConversionSettingsProps> = ({
+  options,
+  onOptionsChange,
   onConvert,
   isConverting,
   progress,
-  imageCount,
+  images,
 }) => {
-  const [options, setOptions] = useState<ConversionOptions>({
-    pageSize: 'A4',
-    orientation: 'portrait',
-    margin: 20,
-    quality: 'high',
-    filename: 'images-converted',
-    imagesPerPage: 1,
-  });
-
+  const imageCount = images.length;
   const handleOptionChange = useCallback(<K extends keyof ConversionOptions>(
     key: K,
     value: ConversionOptions[K]
   ) => {
-    setOptions(prev => ({ ...prev, [key]: value }));
-  }, []);
+    onOptionsChange(prev => ({ ...prev, [key]: value }));
+  }, [onOptionsChange]);
+
+  const handleCustomSizeChange = useCallback((updates: Partial<CustomPageSize>) => {
+    onOptionsChange(prev => ({ ...prev, customPageSize: { ...prev.customPageSize, ...updates } }));
+  }, [onOptionsChange]);
+
+  const handleLayoutChange = useCallback((updates: Partial<GridLayout>) => {
+    onOptionsChange(prev => ({ ...prev, layout: { ...prev.layout, ...updates } }));
+  }, [onOptionsChange]);
+
+  const handlePageTextChange = useCallback((updates: Partial<PageTextOptions>) => {
+    onOptionsChange(prev => ({ ...prev, pageText: { ...prev.pageText, ...updates } }));
+  }, [onOptionsChange]);
+
+  const handleBackgroundChange = useCallback((updates: Partial<PageBackground>) => {
+    onOptionsChange(prev => ({ ...prev, background: { ...prev.background, ...updates } }));
+  }, [onOptionsChange]);
+
+  const handleMetadataChange = useCallback((updates: Partial<DocumentMetadata>) => {
+    onOptionsChange(prev => ({ ...prev, metadata: { ...prev.metadata, ...updates } }));
+  }, [onOptionsChange]);
+
+  const handleProcessingChange = useCallback((updates: Partial<ImageProcessing>) => {
+    onOptionsChange(prev => ({ ...prev, processing: { ...prev.processing, ...updates } }));
+  }, [onOptionsChange]);
+
+  const handleAdjustmentsChange = useCallback((updates: Partial<ImageAdjustments>) => {
+    onOptionsChange(prev => ({ ...prev, adjustments: { ...prev.adjustments, ...updates } }));
+  }, [onOptionsChange]);
+
+  const handleSplitChange = useCallback((updates: Partial<OutputSplit>) => {
+    onOptionsChange(prev => ({ ...prev, split: { ...prev.split, ...updates } }));
+  }, [onOptionsChange]);
+
+  const handleSecurityChange = useCallback((updates: Partial<PdfSecurity>) => {
+    onOptionsChange(prev => ({ ...prev, security: { ...prev.security, ...updates } }));
+  }, [onOptionsChange]);
+
+  const handlePermissionChange = useCallback((updates: Partial<PdfPermissions>) => {
+    onOptionsChange(prev => ({
+      ...prev,
+      security: { ...prev.security, permissions: { ...prev.security.permissions, ...updates } },
+    }));
+  }, [onOptionsChange]);
+
+  const passwordError = getPasswordError(options.security);
+  const canConvert = !isConverting && imageCount > 0 && !passwordError;
 
   const handleConvert = useCallback(() => {
-    if (!isConverting && imageCount > 0) {
+    if (canConvert) {
       onConvert(options);
     }
-  }, [onConvert, options, isConverting, imageCount]);
+  }, [onConvert, options, canConvert]);
 
-  const estimatedFileSize = Math.round((imageCount * 0.5) * (options.quality === 'high' ? 1 : options.quality === 'medium' ? 0.7 : 0.4));
+  const fitToImage = options.pageSize === 'fit-image';
+  const partPageCounts = countPartPages(images, options);
+  const pageCount = partPageCounts.reduce((total, count) => total + count, 0);
+  const layoutPreset = LAYOUT_PRESETS.find(
+    preset => preset.rows === options.layout.rows && preset.columns === options.layout.columns
+  )?.label ?? 'custom';
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 sticky top-8">
@@ -47,6 +126,9 @@ const ConversionSettings: React.FC<ConversionSettingsProps> = ({
       </div>
 
       <div className="space-y-6">
+        {/* Presets */}
+        <PresetManager options={options} onOptionsChange={onOptionsChange} />
+
         {/* Page Size */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -54,13 +136,59 @@ const ConversionSettings: React.FC<ConversionSettingsProps> = ({
           </label>
           <select
             value={options.pageSize}
-            onChange={(e) => handleOptionChange('pageSize', e.target.value as 'A4' | 'Letter' | 'Legal')}
+            onChange={(e) => handleOptionChange('pageSize', e.target.value as ConversionOptions['pageSize'])}
             className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
+            <option value="A3">A3 (297 × 420 mm)</option>
             <option value="A4">A4 (210 × 297 mm)</option>
+            <option value="A5">A5 (148 × 210 mm)</option>
+            <option value="B5">B5 (176 × 250 mm)</option>
             <option value="Letter">Letter (8.5 × 11 in)</option>
             <option value="Legal">Legal (8.5 × 14 in)</option>
+            <option value="Tabloid">Tabloid (11 × 17 in)</option>
+            <option value="custom">Custom size</option>
+            <option value="fit-image">Match each image</option>
           </select>
+
+          {options.pageSize === 'custom' && (
+            <div className="grid grid-cols-3 gap-2 mt-2">
+              <input
+                type="number"
+                min="1"
+                step="any"
+                value={options.customPageSize.width}
+                onChange={(e) => handleCustomSizeChange({ width: Number(e.target.value) })}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label="Custom page width"
+                title="Width"
+              />
+              <input
+                type="number"
+                min="1"
+                step="any"
+                value={options.customPageSize.height}
+                onChange={(e) => handleCustomSizeChange({ height: Number(e.target.value) })}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label="Custom page height"
+                title="Height"
+              />
+              <select
+                value={options.customPageSize.unit}
+                onChange={(e) => handleCustomSizeChange({ unit: e.target.value as CustomPageSize['unit'] })}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label="Custom page size unit"
+              >
+                <option value="mm">mm</option>
+                <option value="in">in</option>
+              </select>
+            </div>
+          )}
+
+          {fitToImage && (
+            <p className="text-xs text-gray-500 mt-2">
+              Each image gets its own page, sized to the image.
+            </p>
+          )}
         </div>
 
         {/* Orientation */}
@@ -68,10 +196,11 @@ const ConversionSettings: React.FC<ConversionSettingsProps> = ({
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Orientation
           </label>
-          <div className="grid grid-cols-2 gap-2">
+          <div className="grid grid-cols-3 gap-2">
             <button
               onClick={() => handleOptionChange('orientation', 'portrait')}
-              className={`p-3 border rounded-lg text-sm font-medium transition-all duration-200 ${
+              disabled={fitToImage}
+              className={`p-3 border rounded-lg text-sm font-medium transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
                 options.orientation === 'portrait'
                   ? 'border-blue-500 bg-blue-50 text-blue-700'
                   : 'border-gray-300 hover:border-gray-400'
@@ -81,7 +210,8 @@ const ConversionSettings: React.FC<ConversionSettingsProps> = ({
             </button>
             <button
               onClick={() => handleOptionChange('orientation', 'landscape')}
-              className={`p-3 border rounded-lg text-sm font-medium transition-all duration-200 ${
+              disabled={fitToImage}
+              className={`p-3 border rounded-lg text-sm font-medium transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
                 options.orientation === 'landscape'
                   ? 'border-blue-500 bg-blue-50 text-blue-700'
                   : 'border-gray-300 hover:border-gray-400'
@@ -89,24 +219,124 @@ const ConversionSettings: React.FC<ConversionSettingsProps> = ({
             >
               Landscape
             </button>
+            <button
+              onClick={() => handleOptionChange('orientation', 'auto')}
+              disabled={fitToImage}
+              className={`p-3 border rounded-lg text-sm font-medium transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                options.orientation === 'auto'
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 hover:border-gray-400'
+              }`}
+            >
+              Auto
+            </button>
           </div>
+          {options.orientation === 'auto' && !fitToImage && (
+            <p className="text-xs text-gray-500 mt-2">
+              Each page turns to fit the images placed on it.
+            </p>
+          )}
         </div>
 
-        {/* Images Per Page */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Images Per Page
-          </label>
+        {/* Layout */}
+        <fieldset disabled={fitToImage} className="disabled:opacity-50">
+          <legend className="block text-sm font-medium text-gray-700 mb-2">
+            Layout
+          </legend>
           <select
-            value={options.imagesPerPage}
-            onChange={(e) => handleOptionChange('imagesPerPage', Number(e.target.value) as 1 | 2 | 4)}
-            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            value={layoutPreset}
+            onChange={(e) => {
+              const preset = LAYOUT_PRESETS.find(p => p.label === e.target.value);
+              if (preset) {
+                handleLayoutChange({ rows: preset.rows, columns: preset.columns });
+              }
+            }}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:cursor-not-allowed"
           >
-            <option value={1}>1 image per page</option>
-            <option value={2}>2 images per page</option>
-            <option value={4}>4 images per page</option>
+            {LAYOUT_PRESETS.map((preset) => (
+              <option key={preset.label} value={preset.label}>{preset.label}</option>
+            ))}
+            {layoutPreset === 'custom' && <option value="custom">Custom grid</option>}
           </select>
-        </div>
+
+          <div className="grid grid-cols-2 gap-2 mt-2">
+            <label className="text-xs text-gray-600">
+              Rows
+              <input
+                type="number"
+                min="1"
+                max={MAX_GRID_SIZE}
+                value={options.layout.rows}
+                onChange={(e) => handleLayoutChange({ rows: clampGridSize(Number(e.target.value)) })}
+                className="w-full mt-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Columns
+              <input
+                type="number"
+                min="1"
+                max={MAX_GRID_SIZE}
+                value={options.layout.columns}
+                onChange={(e) => handleLayoutChange({ columns: clampGridSize(Number(e.target.value)) })}
+                className="w-full mt-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Rows and columns swap on landscape pages.
+          </p>
+
+          <label className="block text-xs text-gray-600 mt-4 mb-1">
+            Spacing: {options.layout.gutter}px
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="40"
+            value={options.layout.gutter}
+            onChange={(e) => handleLayoutChange({ gutter: Number(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+          />
+
+          <div className="grid grid-cols-2 gap-2 mt-4">
+            {(['fit', 'fill'] as const).map((fit) => (
+              <button
+                key={fit}
+                onClick={() => handleLayoutChange({ fit })}
+                className={`p-2 border rounded-lg text-xs font-medium transition-all duration-200 ${
+                  options.layout.fit === fit
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 hover:border-gray-400'
+                }`}
+                title={fit === 'fit' ? 'Show the whole image' : 'Fill the cell, cropping the edges'}
+              >
+                {fit === 'fit' ? 'Fit in Cell' : 'Fill Cell'}
+              </button>
+            ))}
+          </div>
+
+          <label className="block text-xs text-gray-600 mt-4 mb-1">
+            Alignment in Cell
+          </label>
+          <div className="grid grid-cols-3 gap-1 w-24">
+            {(['top', 'center', 'bottom'] as const).map((alignY) =>
+              (['left', 'center', 'right'] as const).map((alignX) => (
+                <button
+                  key={`${alignY}-${alignX}`}
+                  onClick={() => handleLayoutChange({ alignX, alignY })}
+                  className={`h-7 border rounded transition-all duration-200 ${
+                    options.layout.alignX === alignX && options.layout.alignY === alignY
+                      ? 'border-blue-500 bg-blue-500'
+                      : 'border-gray-300 hover:border-gray-400'
+                  }`}
+                  title={`Align ${alignY} ${alignX}`}
+                  aria-label={`Align ${alignY} ${alignX}`}
+                />
+              ))
+            )}
+          </div>
+        </fieldset>
 
         {/* Quality */}
         <div>
@@ -130,6 +360,61 @@ const ConversionSettings: React.FC<ConversionSettingsProps> = ({
           </div>
         </div>
 
+        {/* Processing */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Image Type
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              ['photo', 'Photos'],
+              ['document', 'Documents'],
+            ] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => handleProcessingChange({ mode })}
+                className={`p-2 border rounded-lg text-xs font-medium transition-all duration-200 ${
+                  options.processing.mode === mode
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 hover:border-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {options.processing.mode === 'document' && (
+            <>
+              <label className="block text-xs text-gray-600 mt-2">
+                Scan filter
+                <select
+                  value={options.processing.filter}
+                  onChange={(e) => handleProcessingChange({ filter: e.target.value as ImageProcessing['filter'] })}
+                  className="w-full mt-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="color">Color</option>
+                  <option value="grayscale">Grayscale</option>
+                  <option value="black-and-white">Black and white</option>
+                </select>
+              </label>
+              <p className="text-xs text-gray-500 mt-1">
+                Each photo is cropped to the page in it, squared up and straightened.
+              </p>
+            </>
+          )}
+        </div>
+
+        {/* Adjustments */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Adjustments
+          </label>
+          <AdjustmentControls adjustments={options.adjustments} onChange={handleAdjustmentsChange} />
+          <p className="text-xs text-gray-500 mt-2">
+            Applied to every image that has no adjustments of its own.
+          </p>
+        </div>
+
         {/* Margin */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -150,6 +435,262 @@ const ConversionSettings: React.FC<ConversionSettingsProps> = ({
           </div>
         </div>
 
+        {/* Background */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Background
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            {([
+              ['none', 'None'],
+              ['page', 'Page'],
+              ['cell', 'Behind Images'],
+            ] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => handleBackgroundChange({ mode })}
+                className={`p-2 border rounded-lg text-xs font-medium transition-all duration-200 ${
+                  options.background.mode === mode
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 hover:border-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {options.background.mode !== 'none' && (
+            <label className="flex items-center text-xs text-gray-600 mt-2">
+              <input
+                type="color"
+                value={options.background.color}
+                onChange={(e) => handleBackgroundChange({ color: e.target.value })}
+                className="w-8 h-8 mr-2 border border-gray-300 rounded cursor-pointer"
+              />
+              Background color
+            </label>
+          )}
+        </div>
+
+        {/* Page Text */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Header &amp; Footer
+          </label>
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={options.pageText.header}
+              onChange={(e) => handlePageTextChange({ header: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Header text"
+              aria-label="Header text"
+            />
+            <input
+              type="text"
+              value={options.pageText.footer}
+              onChange={(e) => handlePageTextChange({ footer: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Footer text"
+              aria-label="Footer text"
+            />
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.pageText.pageNumbers}
+                onChange={(e) => handlePageTextChange({ pageNumbers: e.target.checked })}
+                className="mr-2 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+              />
+              Page numbers ("Page 3 of 12")
+            </label>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.pageText.captions}
+                onChange={(e) => handlePageTextChange({ captions: e.target.checked })}
+                className="mr-2 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+              />
+              Filename under each image
+            </label>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Pages from imported PDFs are kept as they are, without header, footer or page number
+          </p>
+        </div>
+
+        {/* Document Info */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Document Info
+          </label>
+          <div className="space-y-2">
+            {([
+              ['title', 'Title'],
+              ['author', 'Author'],
+              ['subject', 'Subject'],
+              ['keywords', 'Keywords (comma-separated)'],
+            ] as const).map(([field, placeholder]) => (
+              <input
+                key={field}
+                type="text"
+                value={options.metadata[field]}
+                onChange={(e) => handleMetadataChange({ [field]: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder={placeholder}
+                aria-label={placeholder}
+              />
+            ))}
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.bookmarks}
+                onChange={(e) => handleOptionChange('bookmarks', e.target.checked)}
+                className="mr-2 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+              />
+              Bookmark each image
+            </label>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.ocr}
+                onChange={(e) => handleOptionChange('ocr', e.target.checked)}
+                className="mr-2 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+              />
+              Make text searchable (English OCR)
+            </label>
+            {options.ocr && (
+              <p className="text-xs text-gray-500">
+                Text is recognized on this device, which adds a few seconds per image.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Security */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Security
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.security.enabled}
+              onChange={(e) => handleSecurityChange({ enabled: e.target.checked })}
+              className="mr-2 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+            />
+            Encrypt the PDF
+          </label>
+          {options.security.enabled && (
+            <div className="space-y-2 mt-2">
+              <select
+                value={options.security.encryption}
+                onChange={(e) => handleSecurityChange({ encryption: e.target.value as PdfSecurity['encryption'] })}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label="Encryption"
+              >
+                <option value="aes-256">AES-256</option>
+                <option value="aes-128">AES-128 (older readers)</option>
+              </select>
+              <input
+                type="password"
+                value={options.security.userPassword}
+                onChange={(e) => handleSecurityChange({ userPassword: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Password to open"
+                aria-label="Password to open"
+                autoComplete="new-password"
+              />
+              <input
+                type="password"
+                value={options.security.ownerPassword}
+                onChange={(e) => handleSecurityChange({ ownerPassword: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Password to change permissions"
+                aria-label="Password to change permissions"
+                autoComplete="new-password"
+              />
+              {([
+                ['printing', 'Allow printing'],
+                ['copying', 'Allow copying text and images'],
+                ['modifying', 'Allow editing and annotating'],
+              ] as const).map(([permission, label]) => (
+                <label key={permission} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={options.security.permissions[permission]}
+                    onChange={(e) => handlePermissionChange({ [permission]: e.target.checked })}
+                    className="mr-2 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+                  />
+                  {label}
+                </label>
+              ))}
+              {passwordError ? (
+                <p className="text-xs text-red-600">{passwordError}</p>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  Without a password to open, anyone can view the PDF but the permissions still apply.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Split Output */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Split Output
+          </label>
+          <select
+            value={options.split.mode}
+            onChange={(e) => handleSplitChange({ mode: e.target.value as OutputSplit['mode'] })}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="none">Single PDF</option>
+            <option value="count">Every N images</option>
+            <option value="size">By file size</option>
+            <option value="groups">By groups</option>
+          </select>
+          {options.split.mode === 'count' && (
+            <label className="block text-xs text-gray-600 mt-2">
+              Images per PDF
+              <input
+                type="number"
+                min="1"
+                value={options.split.imagesPerPart}
+                onChange={(e) => handleSplitChange({ imagesPerPart: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+                className="w-full mt-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+          )}
+          {options.split.mode === 'size' && (
+            <>
+              <label className="block text-xs text-gray-600 mt-2">
+                Maximum size per PDF (MB)
+                <input
+                  type="number"
+                  min="1"
+                  value={options.split.maxSizeMb}
+                  onChange={(e) => handleSplitChange({ maxSizeMb: Math.max(1, Number(e.target.value) || 1) })}
+                  className="w-full mt-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </label>
+              <p className="text-xs text-gray-500 mt-1">
+                Sizes are estimated; a single page larger than the limit gets a PDF of its own.
+              </p>
+            </>
+          )}
+          {options.split.mode === 'groups' && (
+            <p className="text-xs text-gray-500 mt-1">
+              Mark the first image of each group in the image list.
+            </p>
+          )}
+          {options.split.mode !== 'none' && (
+            <p className="text-xs text-gray-500 mt-1">
+              Multiple PDFs are downloaded together as a ZIP file.
+            </p>
+          )}
+        </div>
+
         {/* Filename */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -177,22 +718,24 @@ const ConversionSettings: React.FC<ConversionSettingsProps> = ({
             </div>
             <div className="flex justify-between">
               <span>Pages:</span>
-              <span>{Math.ceil(imageCount / options.imagesPerPage)}</span>
-            </div>
-            <div className="flex justify-between">
-              <span>Est. Size:</span>
-              <span>~{estimatedFileSize} MB</span>
+              <span>{pageCount}</span>
             </div>
+            {partPageCounts.length > 1 && (
+              <div className="flex justify-between">
+                <span>PDFs:</span>
+                <span>{partPageCounts.length} ({partPageCounts.join(' + ')} pages)</span>
+              </div>
+            )}
           </div>
         </div>
 
         {/* Convert Button */}
         <button
           onClick={handleConvert}
-          disabled={isConverting || imageCount === 0}
+          disabled={!canConvert}
           className={`
             w-full py-4 px-6 rounded-lg font-medium transition-all duration-200 flex items-center justify-center
-            ${isConverting || imageCount === 0
+            ${!canConvert
               ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
               : 'bg-blue-500 hover:bg-blue-600 text-white hover:shadow-lg transform hover:scale-105'
             }
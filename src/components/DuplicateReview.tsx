@@ -0,0 +1,72 @@
+import React from 'react';
+import { Copy, Plus, SkipForward } from 'lucide-react';
+import type { DuplicateMatch, ImageFile } from '../types';
+
+interface DuplicateReviewProps {
+  uploadCount: number;
+  duplicates: { image: ImageFile; original: ImageFile; kind: DuplicateMatch['kind'] }[];
+  onSkipDuplicates: () => void;
+  onKeepAll: () => void;
+}
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({
+  uploadCount,
+  duplicates,
+  onSkipDuplicates,
+  onKeepAll,
+}) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 max-w-lg w-full mx-4">
+        <div className="flex items-center mb-2">
+          <Copy className="w-6 h-6 text-amber-500 mr-3 flex-shrink-0" />
+          <h3 className="text-lg font-semibold text-gray-900">
+            {duplicates.length} of {uploadCount} new items look like duplicates
+          </h3>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          They match images that are already in the list or earlier in this upload.
+        </p>
+
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg mb-6">
+          {duplicates.map(({ image, original, kind }) => (
+            <li key={image.id} className="p-3 flex items-center">
+              <img
+                src={image.url}
+                alt=""
+                className="w-10 h-10 object-cover rounded mr-3 flex-shrink-0 bg-gray-100"
+              />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate" title={image.name}>
+                  {image.name}
+                </p>
+                <p className="text-xs text-gray-500 truncate" title={original.name}>
+                  {kind === 'exact' ? 'Same file as' : 'Looks like'} {original.name}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
+          <button
+            onClick={onKeepAll}
+            className="px-4 py-2 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors duration-200 flex items-center justify-center"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Keep All
+          </button>
+          <button
+            onClick={onSkipDuplicates}
+            className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors duration-200 flex items-center justify-center"
+          >
+            <SkipForward className="w-4 h-4 mr-2" />
+            Skip Duplicates
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReview;
@@ -0,0 +1,337 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  X,
+  RotateCw,
+  RotateCcw,
+  FlipHorizontal,
+  FlipVertical,
+  Crop,
+  Undo2,
+  Check,
+} from 'lucide-react';
+import AdjustmentControls from './AdjustmentControls';
+import type { ScanFilter } from '../utils/documentScanner';
+import { adjustCanvas, isNeutralAdjustments } from '../utils/imageAdjustments';
+import { loadImage } from '../utils/imageCompression';
+import {
+  IDENTITY_TRANSFORM,
+  flipTransform,
+  renderTransformedImage,
+  rotateTransform,
+} from '../utils/imageTransform';
+import { getPageGeometry, getScanPreview } from '../utils/scanPreview';
+import type { CropRect, ImageAdjustments, ImageFile, ImageTransform } from '../types';
+
+interface ImageEditorProps {
+  image: ImageFile;
+  // The document-wide adjustments, used unless the image gets its own
+  defaultAdjustments: ImageAdjustments;
+  // In document mode the scanned page is shown, since that's what the edits apply to
+  scanFilter: ScanFilter | null;
+  onSave: (transform: ImageTransform, label: string, adjustments: ImageAdjustments | null) => void;
+  onClose: () => void;
+}
+
+type CropHandle = 'move' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+const PREVIEW_SIZE = 800;
+const MIN_CROP_SIZE = 0.05;
+const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ image, defaultAdjustments, scanFilter, onSave, onClose }) => {
+  const [transform, setTransform] = useState<ImageTransform>(image.transform ?? IDENTITY_TRANSFORM);
+  const [label, setLabel] = useState(image.label ?? '');
+  const [ownAdjustments, setOwnAdjustments] = useState<ImageAdjustments | null>(image.adjustments ?? null);
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
+  const cropAreaRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ handle: CropHandle; startX: number; startY: number; startCrop: CropRect } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const url = scanFilter
+      ? getPageGeometry(image.url, image.pageGeometry)
+        .then(geometry => getScanPreview(image.url, scanFilter, geometry, PREVIEW_SIZE))
+      : Promise.resolve(image.url);
+    url.then(loadImage).then((img) => {
+      if (!cancelled) {
+        setSource(img);
+      }
+    }, (error) => console.error(`Failed to load image ${image.name}:`, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [image.url, image.pageGeometry, image.name, scanFilter]);
+
+  // The canvas shows the rotated, flipped and adjusted image uncropped; the crop is drawn on top of it
+  const { rotation, flipHorizontal, flipVertical } = transform;
+  const adjustments = ownAdjustments ?? defaultAdjustments;
+  useEffect(() => {
+    const container = canvasContainerRef.current;
+    if (!source || !container) {
+      return;
+    }
+
+    const canvas = renderTransformedImage(
+      source,
+      { rotation, flipHorizontal, flipVertical, crop: null },
+      PREVIEW_SIZE
+    );
+    if (!isNeutralAdjustments(adjustments)) {
+      adjustCanvas(canvas, adjustments);
+    }
+    canvas.className = 'block max-w-full max-h-[60vh]';
+    container.replaceChildren(canvas);
+  }, [source, rotation, flipHorizontal, flipVertical, adjustments]);
+
+  const handleRotate = useCallback((clockwise: boolean) => {
+    setTransform(prev => {
+      const turns = clockwise ? 1 : 3;
+      let next = prev;
+      for (let i = 0; i < turns; i++) {
+        next = rotateTransform(next);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleFlip = useCallback((axis: 'horizontal' | 'vertical') => {
+    setTransform(prev => flipTransform(prev, axis));
+  }, []);
+
+  const handleToggleCrop = useCallback(() => {
+    setTransform(prev => ({ ...prev, crop: prev.crop ? null : FULL_CROP }));
+  }, []);
+
+  const handleAdjustmentsChange = useCallback((updates: Partial<ImageAdjustments>) => {
+    setOwnAdjustments(prev => prev && { ...prev, ...updates });
+  }, []);
+
+  const handlePointerDown = useCallback((event: React.PointerEvent, handle: CropHandle) => {
+    if (!transform.crop) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    (event.target as Element).setPointerCapture(event.pointerId);
+    dragRef.current = { handle, startX: event.clientX, startY: event.clientY, startCrop: transform.crop };
+  }, [transform.crop]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const area = cropAreaRef.current;
+    if (!drag || !area) {
+      return;
+    }
+
+    const bounds = area.getBoundingClientRect();
+    const dx = (event.clientX - drag.startX) / bounds.width;
+    const dy = (event.clientY - drag.startY) / bounds.height;
+    setTransform(prev => ({ ...prev, crop: moveCrop(drag.startCrop, drag.handle, dx, dy) }));
+  }, []);
+
+  const handlePointerUp = useCallback(() => {
+    dragRef.current = null;
+  }, []);
+
+  const crop = transform.crop;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 truncate" title={image.name}>
+            Edit {image.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-700 rounded-lg"
+            title="Close editor"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex justify-center bg-gray-100 rounded-lg p-4 mb-4">
+          <div
+            ref={cropAreaRef}
+            className="relative select-none touch-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <div ref={canvasContainerRef} />
+            {!source && (
+              <div className="w-64 h-64 flex items-center justify-center text-sm text-gray-500">
+                {scanFilter ? 'Scanning page...' : 'Loading image...'}
+              </div>
+            )}
+            {source && crop && (
+              <div
+                className="absolute border-2 border-white cursor-move"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                }}
+                onPointerDown={(e) => handlePointerDown(e, 'move')}
+              >
+                {(['top-left', 'top-right', 'bottom-left', 'bottom-right'] as const).map((handle) => (
+                  <div
+                    key={handle}
+                    className={`absolute w-4 h-4 bg-white border border-blue-500 rounded-sm ${
+                      handle.startsWith('top') ? '-top-2' : '-bottom-2'
+                    } ${handle.endsWith('left') ? '-left-2' : '-right-2'} ${
+                      handle === 'top-left' || handle === 'bottom-right' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'
+                    }`}
+                    onPointerDown={(e) => handlePointerDown(e, handle)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {scanFilter && (
+          <p className="text-xs text-gray-500 -mt-2 mb-4">
+            Showing the scanned page. Rotation, flips and the crop apply to it rather than to the photo.
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <button
+            onClick={() => handleRotate(false)}
+            className="p-2 border border-gray-300 hover:border-gray-400 rounded-lg"
+            title="Rotate left"
+          >
+            <RotateCcw className="w-5 h-5 text-gray-700" />
+          </button>
+          <button
+            onClick={() => handleRotate(true)}
+            className="p-2 border border-gray-300 hover:border-gray-400 rounded-lg"
+            title="Rotate right"
+          >
+            <RotateCw className="w-5 h-5 text-gray-700" />
+          </button>
+          <button
+            onClick={() => handleFlip('horizontal')}
+            className={`p-2 border rounded-lg ${
+              flipHorizontal ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+            }`}
+            title="Flip horizontally"
+          >
+            <FlipHorizontal className="w-5 h-5 text-gray-700" />
+          </button>
+          <button
+            onClick={() => handleFlip('vertical')}
+            className={`p-2 border rounded-lg ${
+              flipVertical ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+            }`}
+            title="Flip vertically"
+          >
+            <FlipVertical className="w-5 h-5 text-gray-700" />
+          </button>
+          <button
+            onClick={handleToggleCrop}
+            className={`p-2 border rounded-lg ${
+              crop ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+            }`}
+            title={crop ? 'Remove crop' : 'Crop'}
+          >
+            <Crop className="w-5 h-5 text-gray-700" />
+          </button>
+          <button
+            onClick={() => {
+              setTransform(IDENTITY_TRANSFORM);
+              setOwnAdjustments(null);
+            }}
+            className="p-2 border border-gray-300 hover:border-gray-400 rounded-lg ml-auto"
+            title="Reset all edits"
+          >
+            <Undo2 className="w-5 h-5 text-gray-700" />
+          </button>
+        </div>
+
+        <div className="mb-4">
+          <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+            <input
+              type="checkbox"
+              checked={ownAdjustments !== null}
+              onChange={(e) => setOwnAdjustments(e.target.checked ? defaultAdjustments : null)}
+              className="mr-2 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+            />
+            Own adjustments for this image
+          </label>
+          {ownAdjustments && (
+            <AdjustmentControls adjustments={ownAdjustments} onChange={handleAdjustmentsChange} />
+          )}
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Bookmark Label
+          </label>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder={image.name}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(transform, label, ownAdjustments)}
+            className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors duration-200 flex items-center"
+          >
+            <Check className="w-4 h-4 mr-2" />
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+function moveCrop(crop: CropRect, handle: CropHandle, dx: number, dy: number): CropRect {
+  if (handle === 'move') {
+    return {
+      ...crop,
+      x: clamp(crop.x + dx, 0, 1 - crop.width),
+      y: clamp(crop.y + dy, 0, 1 - crop.height),
+    };
+  }
+
+  let left = crop.x;
+  let top = crop.y;
+  let right = crop.x + crop.width;
+  let bottom = crop.y + crop.height;
+
+  if (handle.endsWith('left')) {
+    left = clamp(left + dx, 0, right - MIN_CROP_SIZE);
+  } else {
+    right = clamp(right + dx, left + MIN_CROP_SIZE, 1);
+  }
+  if (handle.startsWith('top')) {
+    top = clamp(top + dy, 0, bottom - MIN_CROP_SIZE);
+  } else {
+    bottom = clamp(bottom + dy, top + MIN_CROP_SIZE, 1);
+  }
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export default ImageEditor;
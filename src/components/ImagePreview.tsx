@@ -1,37 +1,495 @@
-import React, { useCallback, useRef } from 'react';
-import { X, GripVertical } from 'lucide-react';
-import type { ImageFile } from '../types';
+import React, { useCallback, useEffect, useId, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import {
+  X,
+  GripVertical,
+  Pencil,
+  Scissors,
+  Copy,
+  ArrowUpDown,
+  ArrowUpToLine,
+  ArrowDownToLine,
+  Trash2,
+} from 'lucide-react';
+import ImageEditor from './ImageEditor';
+import type { ScanFilter } from '../utils/documentScanner';
+import { NEUTRAL_ADJUSTMENTS } from '../utils/imageAdjustments';
+import { loadImage } from '../utils/imageCompression';
+import { findDuplicates } from '../utils/imageHash';
+import { moveImages, sortImages } from '../utils/imageOrder';
+import type { ImageSortKey } from '../utils/imageOrder';
+import { IDENTITY_TRANSFORM, isIdentityTransform, renderTransformedImage } from '../utils/imageTransform';
+import { getPageGeometry, getScanPreview } from '../utils/scanPreview';
+import type { ImageAdjustments, ImageFile, ImageProcessing, ImageTransform } from '../types';
 
 interface ImagePreviewProps {
   images: ImageFile[];
   onImageRemove: (id: number) => void;
-  onImageReorder: (dragIndex: number, hoverIndex: number) => void;
+  onImageUpdate: (id: number, updates: Partial<Omit<ImageFile, 'id'>>) => void;
+  onImagesReorder: (reorder: (images: ImageFile[]) => ImageFile[]) => void;
+  onImagesRemove: (ids: Set<number>) => void;
+  // Lets each image be marked as the start of a new PDF when splitting by groups
+  showGroupControls?: boolean;
+  // In document mode the cards show the scanned page, with the original photo a click away
+  processing?: ImageProcessing;
+  // The document-wide adjustments, which the editor starts from when an image gets its own
+  adjustments?: ImageAdjustments;
 }
 
+// A press on a card, which turns into a drag once the pointer has moved far enough
+interface PointerDrag {
+  pointerId: number;
+  ids: Set<number>;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  // Where the card was grabbed, so the floating thumbnail stays under the pointer
+  offsetX: number;
+  offsetY: number;
+  width: number;
+  active: boolean;
+  // Where the dragged images would be dropped, as for moveImages
+  position: number;
+}
+
+// The columns of the grid and the rows of it that are mounted, from firstRow up to lastRow
+interface GridLayout {
+  columns: number;
+  // Height of a card plus the gap below it; 0 until a card has been measured
+  rowHeight: number;
+  firstRow: number;
+  lastRow: number;
+}
+
+// An image picked up with the keyboard, and where it was so Escape can put it back
+interface KeyboardGrab {
+  id: number;
+  originalPosition: number;
+}
+
+const THUMBNAIL_SIZE = 400;
+// Pixels the pointer moves before a press becomes a drag, so clicks still select
+const DRAG_THRESHOLD = 5;
+// Dragging this close to the top or bottom of the window scrolls it
+const AUTO_SCROLL_EDGE = 80;
+const MAX_SCROLL_SPEED = 20;
+// Only the rows in view, and this many above and below them, are mounted
+const OVERSCAN_ROWS = 2;
+// Cards mounted before the grid has been measured
+const INITIAL_CARD_COUNT = 20;
+// The grid's gap-4, in pixels
+const GRID_GAP = 16;
+
 const ImagePreview: React.FC<ImagePreviewProps> = ({
   images,
   onImageRemove,
-  onImageReorder,
+  onImageUpdate,
+  onImagesReorder,
+  onImagesRemove,
+  showGroupControls = false,
+  processing,
+  adjustments,
 }) => {
-  const dragItem = useRef<number | null>(null);
-  const dragOverItem = useRef<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  // Shift-click selects the range from the last image clicked
+  const [anchorId, setAnchorId] = useState<number | null>(null);
+  const [movePosition, setMovePosition] = useState('');
+  const [drag, setDrag] = useState<PointerDrag | null>(null);
+  const [grab, setGrab] = useState<KeyboardGrab | null>(null);
+  // The card that Tab moves to; the others are reached with the arrow keys
+  const [focusedId, setFocusedId] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  // Cards switched back to the original photo in document mode
+  const [originalIds, setOriginalIds] = useState<Set<number>>(new Set());
+  const [layout, setLayout] = useState<GridLayout>({
+    columns: 1,
+    rowHeight: 0,
+    firstRow: 0,
+    lastRow: INITIAL_CARD_COUNT,
+  });
+  const dragRef = useRef<PointerDrag | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const cardRefs = useRef(new Map<number, HTMLDivElement>());
+  // Focus follows a card moved or removed with the keyboard once the list has re-rendered
+  const pendingFocusRef = useRef<number | null>(null);
+  // The click that ends a drag shouldn't also change the selection
+  const suppressClickRef = useRef(false);
+  const instructionsId = useId();
+  const editingImage = images.find(image => image.id === editingId);
+  // "Duplicate of #3" for each image repeating an earlier one
+  const duplicateLabels = useMemo(() => {
+    const positions = new Map(images.map((image, index) => [image.id, index + 1]));
+    const labels = new Map<number, string>();
+    findDuplicates(images).forEach(({ kind, originalId }, id) => {
+      labels.set(id, `${kind === 'exact' ? 'Duplicate of' : 'Similar to'} #${positions.get(originalId)}`);
+    });
+    return labels;
+  }, [images]);
 
-  const handleDragStart = useCallback((index: number) => {
-    dragItem.current = index;
+  // Ids of removed images may linger in the selection state, so only listed ones count
+  const selection = useMemo(
+    () => new Set(images.filter(image => selectedIds.has(image.id)).map(image => image.id)),
+    [images, selectedIds]
+  );
+
+  // While dragging, the grid shows the order the drop would give
+  const displayImages = useMemo(
+    () => (drag?.active ? moveImages(images, drag.ids, drag.position) : images),
+    [images, drag]
+  );
+  const rowCount = Math.ceil(displayImages.length / layout.columns);
+  // The list may have shrunk below the rows that were in view
+  const firstRow = Math.min(layout.firstRow, Math.max(0, rowCount - 1));
+  const firstIndex = firstRow * layout.columns;
+  const visibleImages = displayImages.slice(firstIndex, layout.lastRow * layout.columns);
+  const tabStopId = visibleImages.some(image => image.id === focusedId) ? focusedId : visibleImages[0]?.id;
+
+  const measureGrid = useCallback(() => {
+    const grid = gridRef.current;
+    if (!grid) {
+      return;
+    }
+
+    const columns = Math.max(1, getComputedStyle(grid).gridTemplateColumns.split(' ').length);
+    const card = grid.querySelector<HTMLElement>('[data-image-id]');
+    const rowHeight = card ? card.offsetHeight + GRID_GAP : 0;
+    const top = grid.getBoundingClientRect().top;
+    const next = rowHeight
+      ? {
+          columns,
+          rowHeight,
+          firstRow: Math.max(0, Math.floor(-top / rowHeight) - OVERSCAN_ROWS),
+          lastRow: Math.max(0, Math.ceil((window.innerHeight - top) / rowHeight) + OVERSCAN_ROWS),
+        }
+      : { columns, rowHeight, firstRow: 0, lastRow: Math.ceil(INITIAL_CARD_COUNT / columns) };
+    setLayout(prev => (
+      prev.columns === next.columns && prev.rowHeight === next.rowHeight &&
+      prev.firstRow === next.firstRow && prev.lastRow === next.lastRow ? prev : next
+    ));
   }, []);
 
-  const handleDragEnter = useCallback((index: number) => {
-    dragOverItem.current = index;
+  useLayoutEffect(measureGrid, [measureGrid, images.length]);
+
+  useEffect(() => {
+    const grid = gridRef.current;
+    const observer = new ResizeObserver(measureGrid);
+    if (grid) {
+      observer.observe(grid);
+    }
+    window.addEventListener('scroll', measureGrid, { passive: true });
+    window.addEventListener('resize', measureGrid);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('scroll', measureGrid);
+      window.removeEventListener('resize', measureGrid);
+    };
+  }, [measureGrid]);
+
+  const describeImages = useCallback((ids: Set<number>) => {
+    if (ids.size > 1) {
+      return `${ids.size} images`;
+    }
+    return images.find(image => ids.has(image.id))?.name ?? 'Image';
+  }, [images]);
+
+  const updateDrag = useCallback((next: PointerDrag | null) => {
+    dragRef.current = next;
+    setDrag(next);
   }, []);
 
-  const handleDragEnd = useCallback(() => {
-    if (dragItem.current !== null && dragOverItem.current !== null && 
-        dragItem.current !== dragOverItem.current) {
-      onImageReorder(dragItem.current, dragOverItem.current);
+  // The drag moved to the pointer, dropping before or after the card under it
+  const getDragUpdate = useCallback((current: PointerDrag, x: number, y: number): PointerDrag => {
+    const card = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-image-id]');
+    const id = Number(card?.dataset.imageId);
+    if (!card || !gridRef.current?.contains(card) || current.ids.has(id)) {
+      return { ...current, x, y };
+    }
+
+    const order = moveImages(images, current.ids, current.position);
+    const index = order.findIndex(image => image.id === id);
+    const blockStart = order.findIndex(image => current.ids.has(image.id));
+    const start = index > blockStart ? index - current.ids.size + 1 : index;
+    return { ...current, x, y, position: start + 1 };
+  }, [images]);
+
+  const finishDrag = useCallback((drop: boolean) => {
+    const current = dragRef.current;
+    updateDrag(null);
+    if (!current?.active) {
+      return;
+    }
+
+    suppressClickRef.current = true;
+    if (drop) {
+      onImagesReorder(prev => moveImages(prev, current.ids, current.position));
+      setAnnouncement(`${describeImages(current.ids)} moved to position ${current.position} of ${images.length}`);
+    } else {
+      setAnnouncement('Move cancelled');
+    }
+  }, [updateDrag, onImagesReorder, describeImages, images.length]);
+
+  const isPointerDown = drag !== null;
+  const isDragging = !!drag?.active;
+
+  useEffect(() => {
+    if (!isPointerDown) {
+      return;
+    }
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current || e.pointerId !== current.pointerId) {
+        return;
+      }
+      if (!current.active && Math.hypot(e.clientX - current.startX, e.clientY - current.startY) < DRAG_THRESHOLD) {
+        return;
+      }
+      updateDrag(getDragUpdate({ ...current, active: true }, e.clientX, e.clientY));
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      if (e.pointerId === dragRef.current?.pointerId) {
+        finishDrag(e.type === 'pointerup');
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        finishDrag(false);
+      }
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isPointerDown, updateDrag, getDragUpdate, finishDrag]);
+
+  // Scrolls the page while the pointer is held near its top or bottom edge
+  useEffect(() => {
+    if (!isDragging) {
+      return;
+    }
+
+    let frame = requestAnimationFrame(function scroll() {
+      const current = dragRef.current;
+      const speed = current ? getScrollSpeed(current.y) : 0;
+      if (current && speed) {
+        window.scrollBy(0, speed);
+        updateDrag(getDragUpdate(current, current.x, current.y));
+      }
+      frame = requestAnimationFrame(scroll);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isDragging, updateDrag, getDragUpdate]);
+
+  // Runs after every render, since the card may only be mounted once it has been scrolled to
+  useEffect(() => {
+    const id = pendingFocusRef.current;
+    if (id === null) {
+      return;
+    }
+    const card = cardRefs.current.get(id);
+    const index = images.findIndex(image => image.id === id);
+    if (card || index === -1) {
+      pendingFocusRef.current = null;
+      card?.focus();
+    } else if (gridRef.current) {
+      scrollToCard(gridRef.current, layout, index);
+    }
+  });
+
+  const focusCard = useCallback((index: number) => {
+    const id = images[index].id;
+    const card = cardRefs.current.get(id);
+    if (card) {
+      card.focus();
+    } else if (gridRef.current) {
+      pendingFocusRef.current = id;
+      scrollToCard(gridRef.current, layout, index);
+    }
+  }, [images, layout]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>, id: number) => {
+    suppressClickRef.current = false;
+    const target = e.target as HTMLElement;
+    // Touch drags start from the handle, so that swiping over the cards still scrolls
+    if (e.button !== 0 || target.closest('button, input') ||
+        (e.pointerType === 'touch' && !target.closest('[data-drag-handle]'))) {
+      return;
+    }
+
+    // Dragging a selected image takes the whole selection with it
+    const ids = selection.has(id) ? selection : new Set([id]);
+    const rect = e.currentTarget.getBoundingClientRect();
+    updateDrag({
+      pointerId: e.pointerId,
+      ids,
+      startX: e.clientX,
+      startY: e.clientY,
+      x: e.clientX,
+      y: e.clientY,
+      offsetX: e.clientX - rect.left,
+      offsetY: e.clientY - rect.top,
+      width: rect.width,
+      active: false,
+      position: images.findIndex(image => ids.has(image.id)) + 1,
+    });
+  }, [images, selection, updateDrag]);
+
+  const handleEditSave = useCallback((
+    transform: ImageTransform,
+    label: string,
+    imageAdjustments: ImageAdjustments | null
+  ) => {
+    if (editingId !== null) {
+      onImageUpdate(editingId, {
+        transform: isIdentityTransform(transform) ? undefined : transform,
+        label: label.trim() || undefined,
+        adjustments: imageAdjustments ?? undefined,
+      });
+    }
+    setEditingId(null);
+  }, [editingId, onImageUpdate]);
+
+  const toggleSelected = useCallback((id: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+    setAnchorId(id);
+  }, []);
+
+  const handleCardClick = useCallback((e: React.MouseEvent, index: number) => {
+    // The buttons on a card don't change the selection
+    if ((e.target as HTMLElement).closest('button, input') || suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+
+    const id = images[index].id;
+    const anchorIndex = images.findIndex(image => image.id === anchorId);
+    const addToSelection = e.ctrlKey || e.metaKey;
+
+    if (e.shiftKey && anchorIndex !== -1) {
+      const range = images
+        .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        .map(image => image.id);
+      setSelectedIds(prev => new Set(addToSelection ? [...prev, ...range] : range));
+      return;
+    }
+
+    if (addToSelection) {
+      toggleSelected(id);
+    } else {
+      setSelectedIds(prev => (prev.size === 1 && prev.has(id) ? new Set() : new Set([id])));
+      setAnchorId(id);
+    }
+  }, [images, anchorId, toggleSelected]);
+
+  const handleMoveImage = useCallback((image: ImageFile, position: number) => {
+    const target = Math.min(images.length, Math.max(1, position));
+    pendingFocusRef.current = image.id;
+    onImagesReorder(prev => moveImages(prev, new Set([image.id]), target));
+    setAnnouncement(`${image.name} moved to position ${target} of ${images.length}`);
+  }, [images.length, onImagesReorder]);
+
+  const handleRemoveImage = useCallback((image: ImageFile) => {
+    const index = images.findIndex(item => item.id === image.id);
+    const neighbour = images[index + 1] ?? images[index - 1];
+    if (neighbour && cardRefs.current.get(image.id)?.contains(document.activeElement)) {
+      pendingFocusRef.current = neighbour.id;
+    }
+    onImageRemove(image.id);
+    setAnnouncement(`${image.name} removed`);
+  }, [images, onImageRemove]);
+
+  const handleCardKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>, image: ImageFile) => {
+    // Keys typed into the card's buttons and position field are theirs
+    if (e.target !== e.currentTarget) {
+      return;
     }
-    dragItem.current = null;
-    dragOverItem.current = null;
-  }, [onImageReorder]);
+
+    const index = images.findIndex(item => item.id === image.id);
+    const isGrabbed = grab?.id === image.id;
+    const step = getArrowStep(e.key, layout.columns);
+    let target: number | null = null;
+    if (step !== null) {
+      target = index + step;
+    } else if (e.key === 'Home') {
+      target = 0;
+    } else if (e.key === 'End') {
+      target = images.length - 1;
+    }
+
+    if (target !== null) {
+      e.preventDefault();
+      target = Math.min(images.length - 1, Math.max(0, target));
+      if (isGrabbed) {
+        if (target !== index) {
+          handleMoveImage(image, target + 1);
+        }
+      } else {
+        focusCard(target);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case ' ':
+        e.preventDefault();
+        if (isGrabbed) {
+          setGrab(null);
+          setAnnouncement(`${image.name} dropped at position ${index + 1} of ${images.length}`);
+        } else {
+          setGrab({ id: image.id, originalPosition: index + 1 });
+          setAnnouncement(`${image.name} picked up at position ${index + 1} of ${images.length}`);
+        }
+        break;
+      case 'Escape':
+        if (grab && isGrabbed) {
+          e.preventDefault();
+          setGrab(null);
+          pendingFocusRef.current = image.id;
+          onImagesReorder(prev => moveImages(prev, new Set([image.id]), grab.originalPosition));
+          setAnnouncement(`Move cancelled. ${image.name} returned to position ${grab.originalPosition}`);
+        }
+        break;
+      case 'Enter':
+        e.preventDefault();
+        toggleSelected(image.id);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        e.preventDefault();
+        handleRemoveImage(image);
+        break;
+    }
+  }, [images, grab, layout.columns, focusCard, handleMoveImage, handleRemoveImage, onImagesReorder, toggleSelected]);
+
+  const handleCardBlur = useCallback((id: number) => {
+    // Moving the card re-inserts it, which takes the focus away for a moment
+    if (grab?.id === id && pendingFocusRef.current !== id) {
+      setGrab(null);
+    }
+  }, [grab]);
+
+  const handleMoveSelection = useCallback((position: number) => {
+    onImagesReorder(prev => moveImages(prev, selection, position));
+  }, [onImagesReorder, selection]);
+
+  const handleDeleteSelection = useCallback(() => {
+    onImagesRemove(selection);
+    setSelectedIds(new Set());
+  }, [onImagesRemove, selection]);
 
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
@@ -41,61 +499,441 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  const toggleOriginal = useCallback((id: number) => {
+    setOriginalIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const scanFilter = processing?.mode === 'document' ? processing.filter : null;
+  const draggedImage = drag?.active ? images.find(image => drag.ids.has(image.id)) : undefined;
+
   return (
-    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-      {images.map((image, index) => (
-        <div
-          key={image.id}
-          draggable
-          onDragStart={() => handleDragStart(index)}
-          onDragEnter={() => handleDragEnter(index)}
-          onDragEnd={handleDragEnd}
-          className="group relative bg-white rounded-lg border border-gray-200 overflow-hidden shadow-sm hover:shadow-md transition-all duration-200 cursor-move"
+    <>
+      {/* Sorting and Selection */}
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <select
+          value=""
+          onChange={(e) => {
+            const key = e.target.value as ImageSortKey;
+            onImagesReorder(prev => sortImages(prev, key));
+          }}
+          className="p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          aria-label="Sort images"
         >
-          {/* Drag Handle */}
-          <div className="absolute top-2 left-2 z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-            <div className="bg-black bg-opacity-50 rounded p-1">
-              <GripVertical className="w-4 h-4 text-white" />
-            </div>
+          <option value="" disabled>Sort by…</option>
+          <option value="name">Name</option>
+          <option value="modified">Date modified</option>
+          <option value="captured">Date taken</option>
+          <option value="size">File size</option>
+        </select>
+        <button
+          onClick={() => onImagesReorder(prev => [...prev].reverse())}
+          className="p-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 flex items-center"
+        >
+          <ArrowUpDown className="w-4 h-4 mr-1" />
+          Reverse
+        </button>
+
+        {selection.size > 0 ? (
+          <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+            <span className="text-gray-600">{selection.size} selected</span>
+            <button
+              onClick={() => handleMoveSelection(1)}
+              className="p-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              title="Move to start"
+            >
+              <ArrowUpToLine className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => handleMoveSelection(images.length)}
+              className="p-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              title="Move to end"
+            >
+              <ArrowDownToLine className="w-4 h-4" />
+            </button>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (movePosition) {
+                  handleMoveSelection(Number(movePosition));
+                  setMovePosition('');
+                }
+              }}
+              className="flex items-center gap-1"
+            >
+              <input
+                type="number"
+                min="1"
+                max={images.length}
+                value={movePosition}
+                onChange={(e) => setMovePosition(e.target.value)}
+                className="w-16 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="#"
+                aria-label="Move to position"
+              />
+              <button
+                type="submit"
+                disabled={!movePosition}
+                className="p-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Move
+              </button>
+            </form>
+            <button
+              onClick={handleDeleteSelection}
+              className="p-2 border border-red-200 rounded-lg text-red-600 hover:bg-red-50"
+              title="Remove selected"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setSelectedIds(new Set())}
+              className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+              title="Clear selection"
+            >
+              <X className="w-4 h-4" />
+            </button>
           </div>
+        ) : (
+          <span className="text-xs text-gray-500 sm:ml-auto">
+            Click to select; Shift or Ctrl click to select more
+          </span>
+        )}
+      </div>
+
+      <p id={instructionsId} className="sr-only">
+        Press Space to pick up an image, the arrow keys to move it and Space again to drop it,
+        or Escape to put it back. Enter selects the image and Delete removes it.
+      </p>
+      <div aria-live="polite" aria-atomic="true" className="sr-only">
+        {announcement}
+      </div>
+
+      <div
+        ref={gridRef}
+        role="list"
+        aria-label="Images in page order"
+        className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4"
+        style={{
+          // Stand in for the rows that aren't mounted
+          paddingTop: firstRow * layout.rowHeight,
+          paddingBottom: Math.max(0, rowCount - firstRow - Math.ceil(visibleImages.length / layout.columns)) * layout.rowHeight,
+        }}
+      >
+        {visibleImages.map((image, visibleIndex) => {
+          const index = firstIndex + visibleIndex;
+          return (
+            <div
+              key={image.id}
+              ref={(element) => {
+                if (element) {
+                  cardRefs.current.set(image.id, element);
+                } else {
+                  cardRefs.current.delete(image.id);
+                }
+              }}
+              data-image-id={image.id}
+              role="listitem"
+              aria-posinset={index + 1}
+              aria-setsize={displayImages.length}
+              tabIndex={image.id === tabStopId ? 0 : -1}
+              aria-label={`${image.name}, position ${index + 1} of ${displayImages.length}${selection.has(image.id) ? ', selected' : ''}${grab?.id === image.id ? ', picked up' : ''}`}
+              aria-describedby={instructionsId}
+              onPointerDown={(e) => handlePointerDown(e, image.id)}
+              onClick={(e) => handleCardClick(e, index)}
+              onKeyDown={(e) => handleCardKeyDown(e, image)}
+              onFocus={(e) => {
+                if (e.target === e.currentTarget) {
+                  setFocusedId(image.id);
+                }
+              }}
+              onBlur={() => handleCardBlur(image.id)}
+              className={`group relative bg-white rounded-lg border overflow-hidden shadow-sm hover:shadow-md transition-all duration-200 cursor-grab select-none focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-blue-400 ${
+                grab?.id === image.id
+                  ? 'border-blue-500 ring-4 ring-blue-300 shadow-lg'
+                  : selection.has(image.id) ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-200'
+              } ${drag?.active && drag.ids.has(image.id) ? 'opacity-40' : ''}`}
+            >
+              {/* Drag Handle; touch drags start here */}
+              <div
+                data-drag-handle
+                className="absolute top-2 left-2 z-10 touch-none opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 [@media(pointer:coarse)]:opacity-100 transition-opacity duration-200"
+                aria-hidden="true"
+              >
+                <div className="bg-black bg-opacity-50 rounded p-1">
+                  <GripVertical className="w-4 h-4 text-white" />
+                </div>
+              </div>
+
+              {/* Remove Button */}
+              <button
+                onClick={() => handleRemoveImage(image)}
+                className="absolute top-2 right-2 z-10 bg-red-500 hover:bg-red-600 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-all duration-200 transform hover:scale-110"
+                title="Remove image"
+                aria-label={`Remove ${image.name}`}
+              >
+                <X className="w-4 h-4" />
+              </button>
+
+              {/* Edit Button; imported PDF pages are copied unchanged */}
+              {image.format !== 'pdf' && (
+                <button
+                  onClick={() => setEditingId(image.id)}
+                  className="absolute top-10 right-2 z-10 bg-white hover:bg-gray-100 text-gray-700 rounded-full p-1 shadow opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-all duration-200 transform hover:scale-110"
+                  title="Rotate, crop or flip"
+                  aria-label={`Rotate, crop or flip ${image.name}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              )}
 
-          {/* Remove Button */}
-          <button
-            onClick={() => onImageRemove(image.id)}
-            className="absolute top-2 right-2 z-10 bg-red-500 hover:bg-red-600 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-all duration-200 transform hover:scale-110"
-            title="Remove image"
-          >
-            <X className="w-4 h-4" />
-          </button>
-
-          {/* Image */}
-          <div className="aspect-square">
+              {/* Group Toggle; the first image always starts the first PDF */}
+              {showGroupControls && index > 0 && (
+                <button
+                  onClick={() => onImageUpdate(image.id, { startsGroup: !image.startsGroup || undefined })}
+                  className={`absolute top-10 left-2 z-10 rounded-full p-1 shadow transition-all duration-200 transform hover:scale-110 ${
+                    image.startsGroup
+                      ? 'bg-blue-500 hover:bg-blue-600 text-white'
+                      : 'bg-white hover:bg-gray-100 text-gray-700 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100'
+                  }`}
+                  title={image.startsGroup ? 'Continue the previous PDF' : 'Start a new PDF here'}
+                  aria-pressed={!!image.startsGroup}
+                >
+                  <Scissors className="w-4 h-4" />
+                </button>
+              )}
+
+              {/* Image */}
+              <div className="relative aspect-square">
+                {image.format === 'pdf' ? (
+                  <img
+                    src={image.thumbnailUrl ?? image.url}
+                    alt={image.name}
+                    className="w-full h-full object-contain bg-gray-100"
+                    loading="lazy"
+                    draggable={false}
+                  />
+                ) : scanFilter && !originalIds.has(image.id) ? (
+                  <ScannedThumbnail image={image} filter={scanFilter} />
+                ) : image.transform && !isIdentityTransform(image.transform) ? (
+                  <TransformedThumbnail image={image} transform={image.transform} />
+                ) : (
+                  <img
+                    src={image.thumbnailUrl ?? image.url}
+                    alt={image.name}
+                    className="w-full h-full object-cover"
+                    loading="lazy"
+                    draggable={false}
+                  />
+                )}
+                {/* Before and After; imported PDF pages aren't scanned */}
+                {scanFilter && image.format !== 'pdf' && (
+                  <button
+                    onClick={() => toggleOriginal(image.id)}
+                    className="absolute bottom-2 right-2 z-10 bg-black bg-opacity-60 hover:bg-opacity-75 text-white text-xs font-medium rounded-full px-2 py-0.5"
+                    title={originalIds.has(image.id) ? 'Show the scanned page' : 'Show the original photo'}
+                    aria-label={`Show the original photo of ${image.name}`}
+                    aria-pressed={originalIds.has(image.id)}
+                  >
+                    {originalIds.has(image.id) ? 'Before' : 'After'}
+                  </button>
+                )}
+              </div>
+
+              {/* Image Info */}
+              <div className="p-3">
+                <h4 className="text-xs font-medium text-gray-900 truncate mb-1" title={image.name}>
+                  {image.name}
+                </h4>
+                <p className="text-xs text-gray-500">
+                  {image.format === 'pdf' ? `PDF page · ${formatFileSize(image.size)}` : formatFileSize(image.size)}
+                </p>
+                {/* Keeps its line when empty, so that all rows of the grid have the same height */}
+                <p className="text-xs text-amber-600 flex items-center mt-1 h-4">
+                  {duplicateLabels.has(image.id) && (
+                    <>
+                      <Copy className="w-3 h-3 mr-1 flex-shrink-0" />
+                      <span className="truncate">{duplicateLabels.get(image.id)}</span>
+                    </>
+                  )}
+                </p>
+              </div>
+
+              {/* Order Number; typing a new one moves the image */}
+              <PositionInput
+                name={image.name}
+                position={index + 1}
+                count={displayImages.length}
+                onMove={(position) => handleMoveImage(image, position)}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Follows the pointer while dragging */}
+      {drag?.active && draggedImage && (
+        <div
+          className="fixed z-50 pointer-events-none"
+          style={{ left: drag.x - drag.offsetX, top: drag.y - drag.offsetY, width: drag.width }}
+        >
+          <div className="relative aspect-square bg-white rounded-lg border border-blue-500 shadow-xl overflow-hidden rotate-2">
             <img
-              src={image.url}
-              alt={image.name}
-              className="w-full h-full object-cover"
-              loading="lazy"
+              src={draggedImage.thumbnailUrl ?? draggedImage.url}
+              alt=""
+              className={`w-full h-full ${draggedImage.format === 'pdf' ? 'object-contain bg-gray-100' : 'object-cover'}`}
             />
+            {drag.ids.size > 1 && (
+              <div className="absolute top-2 right-2 bg-blue-500 text-white text-xs rounded-full px-2 py-1 font-medium">
+                {drag.ids.size}
+              </div>
+            )}
           </div>
+        </div>
+      )}
 
-          {/* Image Info */}
-          <div className="p-3">
-            <h4 className="text-xs font-medium text-gray-900 truncate mb-1" title={image.name}>
-              {image.name}
-            </h4>
-            <p className="text-xs text-gray-500">
-              {formatFileSize(image.size)}
-            </p>
-          </div>
+      {editingImage && (
+        <ImageEditor
+          image={editingImage}
+          defaultAdjustments={adjustments ?? NEUTRAL_ADJUSTMENTS}
+          scanFilter={editingImage.format === 'pdf' ? null : scanFilter}
+          onSave={handleEditSave}
+          onClose={() => setEditingId(null)}
+        />
+      )}
+    </>
+  );
+};
 
-          {/* Order Number */}
-          <div className="absolute bottom-2 left-2 bg-blue-500 text-white text-xs rounded-full w-6 h-6 flex items-center justify-center font-medium">
-            {index + 1}
-          </div>
-        </div>
-      ))}
-    </div>
+// The order badge, editable to move the image to another position
+const PositionInput: React.FC<{
+  name: string;
+  position: number;
+  count: number;
+  onMove: (position: number) => void;
+}> = ({ name, position, count, onMove }) => {
+  // The number being typed, until it's applied
+  const [value, setValue] = useState<string | null>(null);
+
+  const apply = () => {
+    const target = Number(value);
+    if (value && Number.isInteger(target) && target !== position) {
+      onMove(target);
+    }
+    setValue(null);
+  };
+
+  return (
+    <input
+      type="number"
+      min="1"
+      max={count}
+      value={value ?? position}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={apply}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') apply();
+        if (e.key === 'Escape') setValue(null);
+      }}
+      className="absolute bottom-2 left-2 h-6 bg-blue-500 text-white text-xs rounded-full text-center font-medium [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none focus:outline-none focus:ring-2 focus:ring-blue-300"
+      style={{ width: `${String(count).length + 2}ch` }}
+      aria-label={`Position of ${name}, 1 to ${count}`}
+    />
   );
 };
 
-export default ImagePreview;
\ No newline at end of file
+const TransformedThumbnail: React.FC<{ image: ImageFile; transform: ImageTransform }> = ({
+  image,
+  transform,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Crops are relative, so the thumbnail gives the same picture as the full image
+    loadImage(image.thumbnailUrl ?? image.url).then((source) => {
+      const container = containerRef.current;
+      if (cancelled || !container) {
+        return;
+      }
+      const canvas = renderTransformedImage(source, transform, THUMBNAIL_SIZE);
+      canvas.className = 'w-full h-full object-cover';
+      container.replaceChildren(canvas);
+    }, (error) => console.error(`Failed to load image ${image.name}:`, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [image.url, image.thumbnailUrl, image.name, transform]);
+
+  return <div ref={containerRef} className="w-full h-full" title={image.name} />;
+};
+
+// The thumbnail as document mode scans it, with the page found on the full image. Crops are
+// relative, so the user's transform applies to the small scan as it does to the full one.
+const ScannedThumbnail: React.FC<{ image: ImageFile; filter: ScanFilter }> = ({ image, filter }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const url = image.thumbnailUrl ?? image.url;
+  const { url: imageUrl, pageGeometry: storedGeometry, transform } = image;
+
+  useEffect(() => {
+    let cancelled = false;
+    getPageGeometry(imageUrl, storedGeometry)
+      .then(pageGeometry => getScanPreview(url, filter, pageGeometry, THUMBNAIL_SIZE))
+      .then(loadImage)
+      .then((source) => {
+        const container = containerRef.current;
+        if (cancelled || !container) {
+          return;
+        }
+        const canvas = renderTransformedImage(source, transform ?? IDENTITY_TRANSFORM, THUMBNAIL_SIZE);
+        canvas.className = 'w-full h-full object-contain';
+        container.replaceChildren(canvas);
+      }, (error) => console.error(`Failed to scan image ${image.name}:`, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [url, imageUrl, storedGeometry, filter, transform, image.name]);
+
+  return <div ref={containerRef} className="w-full h-full bg-gray-100" title={image.name} />;
+};
+
+// Positive while the pointer is near the bottom of the window, negative near the top
+function getScrollSpeed(y: number): number {
+  const bottomEdge = window.innerHeight - AUTO_SCROLL_EDGE;
+  if (y < AUTO_SCROLL_EDGE) {
+    return -Math.ceil(MAX_SCROLL_SPEED * Math.min(1, (AUTO_SCROLL_EDGE - y) / AUTO_SCROLL_EDGE));
+  }
+  if (y > bottomEdge) {
+    return Math.ceil(MAX_SCROLL_SPEED * Math.min(1, (y - bottomEdge) / AUTO_SCROLL_EDGE));
+  }
+  return 0;
+}
+
+// How far an arrow key moves through the grid; up and down skip a row
+function getArrowStep(key: string, columns: number): number | null {
+  switch (key) {
+    case 'ArrowLeft':
+      return -1;
+    case 'ArrowRight':
+      return 1;
+    case 'ArrowUp':
+      return -columns;
+    case 'ArrowDown':
+      return columns;
+    default:
+      return null;
+  }
+}
+
+// Scrolls the window so that the card's row is in the middle, which mounts it
+function scrollToCard(grid: HTMLElement, layout: GridLayout, index: number) {
+  const rowTop = grid.getBoundingClientRect().top + window.scrollY + Math.floor(index / layout.columns) * layout.rowHeight;
+  window.scrollTo({ top: rowTop - (window.innerHeight - layout.rowHeight) / 2 });
+}
+
+export default ImagePreview;
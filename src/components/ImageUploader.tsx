@@ -1,14 +1,17 @@
 import React, { useCallback, useRef, useState } from 'react';
-import { Upload, FileImage, AlertCircle } from 'lucide-react';
+import { Upload, FileImage, AlertCircle, Loader2 } from 'lucide-react';
 
 interface ImageUploaderProps {
   onImagesUpload: (files: File[]) => void;
+  // Files are still being read from the previous upload; no more are taken until they're done
+  isUploading: boolean;
   maxImages: number;
   currentCount: number;
 }
 
 const ImageUploader: React.FC<ImageUploaderProps> = ({
   onImagesUpload,
+  isUploading,
   maxImages,
   currentCount,
 }) => {
@@ -29,19 +32,22 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
   const handleDrop = useCallback((event: React.DragEvent) => {
     event.preventDefault();
     setIsDragOver(false);
-    
+    if (isUploading) {
+      return;
+    }
+
+    // Formats are detected from the file contents, since HEIC and TIFF often arrive without a MIME type
     const files = Array.from(event.dataTransfer.files);
-    const imageFiles = files.filter(file => file.type.startsWith('image/'));
     
-    if (imageFiles.length > 0) {
-      onImagesUpload(imageFiles);
+    if (files.length > 0) {
+      onImagesUpload(files);
     }
-  }, [onImagesUpload]);
+  }, [onImagesUpload, isUploading]);
 
   const handleDragOver = useCallback((event: React.DragEvent) => {
     event.preventDefault();
-    setIsDragOver(true);
-  }, []);
+    setIsDragOver(!isUploading);
+  }, [isUploading]);
 
   const handleDragLeave = useCallback((event: React.DragEvent) => {
     event.preventDefault();
@@ -54,6 +60,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
 
   const remainingSlots = maxImages - currentCount;
   const isMaxReached = remainingSlots <= 0;
+  const isDisabled = isMaxReached || isUploading;
 
   return (
     <div className="w-full">
@@ -63,6 +70,8 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
           transition-all duration-300 ease-in-out
           ${isDragOver 
             ? 'border-blue-400 bg-blue-50 scale-105' 
+            : isUploading
+            ? 'border-blue-300 bg-blue-50 cursor-wait'
             : isMaxReached
             ? 'border-gray-300 bg-gray-50 cursor-not-allowed'
             : 'border-gray-300 hover:border-blue-400 hover:bg-blue-50'
@@ -71,20 +80,31 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
         onDrop={handleDrop}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
-        onClick={!isMaxReached ? handleClick : undefined}
+        onClick={!isDisabled ? handleClick : undefined}
+        aria-busy={isUploading}
       >
         <input
           ref={fileInputRef}
           type="file"
           multiple
-          accept="image/*"
+          accept="image/*,.heic,.heif,.tif,.tiff,application/pdf,.pdf"
           onChange={handleFileChange}
           className="hidden"
-          disabled={isMaxReached}
+          disabled={isDisabled}
         />
         
         <div className="flex flex-col items-center">
-          {isMaxReached ? (
+          {isUploading ? (
+            <>
+              <Loader2 className="w-16 h-16 text-blue-500 mb-4 animate-spin" />
+              <h3 className="text-xl font-semibold text-blue-700 mb-2">
+                Reading files...
+              </h3>
+              <p className="text-gray-600">
+                More files can be added once these are ready
+              </p>
+            </>
+          ) : isMaxReached ? (
             <>
               <AlertCircle className="w-16 h-16 text-gray-400 mb-4" />
               <h3 className="text-xl font-semibold text-gray-600 mb-2">
@@ -122,7 +142,8 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
                 <div className="flex flex-wrap gap-4 text-sm text-gray-600">
                   <span>• Up to {remainingSlots} more images</span>
                   <span>• Max 10MB per image</span>
-                  <span>• JPG, PNG, GIF, WebP</span>
+                  <span>• JPG, PNG, GIF, WebP, AVIF, HEIC, TIFF, BMP</span>
+                  <span>• PDF pages</span>
                 </div>
               </div>
             </>
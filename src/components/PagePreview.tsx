@@ -0,0 +1,335 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { getScanSize } from '../utils/documentScanner';
+import type { ScanFilter } from '../utils/documentScanner';
+import { readImageSize } from '../utils/imageInfo';
+import { loadImage } from '../utils/imageCompression';
+import { getTransformedSize } from '../utils/imageTransform';
+import { getImagesPerPage, getPageGridLayout, layoutPage } from '../utils/pageLayout';
+import type { PageLayout, PlacedImage } from '../utils/pageLayout';
+import { drawImportedPagePreview, drawPagePreview } from '../utils/pagePreview';
+import { getPartStarts } from '../utils/outputSplit';
+import { readPdfPageSizes } from '../utils/pdfImport';
+import { getPageGeometry, getScanPreview } from '../utils/scanPreview';
+import type { ConversionOptions, ImageFile, PageSize } from '../types';
+
+interface PagePreviewProps {
+  images: ImageFile[];
+  options: ConversionOptions;
+}
+
+interface PreviewPageData {
+  images: PlacedImage[];
+  layout: PageLayout;
+  // A page copied from an imported PDF
+  imported: boolean;
+  // Which PDF of a split output the page goes into, and its number within that PDF
+  part: number;
+  pageNumber: number;
+}
+
+// Raw pixel size of each image, or of its scanned page in document mode, or page size in
+// points for imported PDF pages, or null when it can't be added to the PDF
+interface MeasuredSizes {
+  documentMode: boolean;
+  sizes: Map<number, PageSize | null>;
+}
+
+// Sizes are committed in batches so that measuring 500 images doesn't re-render the preview 500 times
+const MEASURE_BATCH_SIZE = 20;
+// Start drawing pages shortly before they scroll into view
+const VISIBILITY_MARGIN = '400px';
+// Longest side of the scans pages are drawn from, the same as the image grid's so both share them
+const SCAN_PREVIEW_SIZE = 400;
+const NO_SIZES = new Map<number, PageSize | null>();
+
+const PagePreview: React.FC<PagePreviewProps> = ({ images, options }) => {
+  const documentMode = options.processing.mode === 'document';
+  const [measuredSizes, setMeasuredSizes] = useState<MeasuredSizes>({ documentMode, sizes: new Map() });
+  // Scanned pages have sizes of their own, so switching modes measures the images again
+  const sizes = measuredSizes.documentMode === documentMode ? measuredSizes.sizes : NO_SIZES;
+  const sizesRef = useRef(sizes);
+  sizesRef.current = sizes;
+
+  useEffect(() => {
+    let cancelled = false;
+    // Page sizes of each imported PDF, read once for all of its pages
+    const pdfPageSizes = new Map<File, Promise<PageSize[]>>();
+
+    const measure = async () => {
+      let batch: [number, PageSize | null][] = [];
+      const flush = () => {
+        const measured = batch;
+        batch = [];
+        setMeasuredSizes(prev => ({
+          documentMode,
+          sizes: new Map([...(prev.documentMode === documentMode ? prev.sizes : []), ...measured]),
+        }));
+      };
+
+      for (const image of images) {
+        if (sizesRef.current.has(image.id)) {
+          continue;
+        }
+
+        let size: PageSize | null = null;
+        try {
+          if (image.format === 'pdf') {
+            if (!pdfPageSizes.has(image.file)) {
+              pdfPageSizes.set(image.file, readPdfPageSizes(image.file));
+            }
+            size = (await pdfPageSizes.get(image.file))?.[image.pageIndex ?? 0] ?? null;
+          } else {
+            size = await readImageSize(image.file, image.format, image.pageIndex);
+            if (documentMode) {
+              const geometry = await getPageGeometry(image.url, image.pageGeometry);
+              size = getScanSize(geometry, size.width, size.height);
+            }
+          }
+        } catch {
+          // Left out, like the PDF does
+        }
+        if (cancelled) {
+          return;
+        }
+
+        batch.push([image.id, size]);
+        if (batch.length >= MEASURE_BATCH_SIZE) {
+          flush();
+        }
+      }
+      if (batch.length > 0) {
+        flush();
+      }
+    };
+
+    measure();
+    return () => {
+      cancelled = true;
+    };
+  }, [images, documentMode]);
+
+  // Group images into pages and PDFs like generatePDF does, up to the first image not measured yet.
+  // Splitting by size depends on the encoded images, so that output is previewed as one PDF.
+  const { pages, partPageCounts, isMeasuring } = useMemo(() => {
+    const imagesPerPage = getImagesPerPage(getPageGridLayout(options));
+    const partStarts = getPartStarts(images, options.split);
+    const result: PreviewPageData[] = [];
+    const pageCounts: number[] = [];
+    let pageImages: PlacedImage[] = [];
+    let startsPart = false;
+
+    const pushPage = (page: Omit<PreviewPageData, 'part' | 'pageNumber'>) => {
+      // A new PDF only begins once the previous one has pages
+      if (startsPart && result.length > 0) {
+        pageCounts.push(0);
+      }
+      startsPart = false;
+      if (pageCounts.length === 0) {
+        pageCounts.push(0);
+      }
+      const part = pageCounts.length - 1;
+      pageCounts[part]++;
+      result.push({ ...page, part, pageNumber: pageCounts[part] });
+    };
+
+    const addPage = () => {
+      pushPage({ images: pageImages, layout: layoutPage(options, pageImages), imported: false });
+      pageImages = [];
+    };
+
+    for (const [index, image] of images.entries()) {
+      if (!sizes.has(image.id)) {
+        return { pages: result, partPageCounts: pageCounts, isMeasuring: true };
+      }
+
+      if (partStarts.has(index)) {
+        if (pageImages.length > 0) {
+          addPage();
+        }
+        startsPart = true;
+      }
+
+      const size = sizes.get(image.id);
+      if (!size) {
+        continue;
+      }
+
+      // Imported PDF pages are copied whole, ending the page before them
+      if (image.format === 'pdf') {
+        if (pageImages.length > 0) {
+          addPage();
+        }
+        const fullPage = { x: 0, y: 0, ...size };
+        pushPage({
+          images: [{ image, ...size }],
+          layout: { ...size, slots: [{ cell: fullPage, placement: { rect: fullPage, clip: null } }] },
+          imported: true,
+        });
+        continue;
+      }
+
+      pageImages.push({ image, ...getTransformedSize(size.width, size.height, image.transform) });
+      if (pageImages.length === imagesPerPage) {
+        addPage();
+      }
+    }
+    if (pageImages.length > 0) {
+      addPage();
+    }
+    return { pages: result, partPageCounts: pageCounts, isMeasuring: false };
+  }, [images, sizes, options]);
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+        {pages.map((page, index) => (
+          <PreviewPage
+            key={index}
+            page={page}
+            options={options}
+            pageCount={partPageCounts[page.part]}
+            showPart={partPageCounts.length > 1}
+          />
+        ))}
+      </div>
+
+      {isMeasuring && (
+        <div className="flex items-center justify-center text-sm text-gray-500 mt-4">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Laying out pages...
+        </div>
+      )}
+
+      {!isMeasuring && pages.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-8">
+          None of the images can be added to the PDF.
+        </p>
+      )}
+    </div>
+  );
+};
+
+// A single page, drawn while it's near the viewport. Its canvas and decoded images
+// are let go once it scrolls away, so only the pages in view hold any.
+const PreviewPage: React.FC<{
+  page: PreviewPageData;
+  options: ConversionOptions;
+  pageCount: number;
+  showPart: boolean;
+}> = ({ page, options, pageCount, showPart }) => {
+  const { pageNumber } = page;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sourcesRef = useRef<Map<number, HTMLImageElement>>(new Map());
+  const [isVisible, setIsVisible] = useState(false);
+  // Imported PDF pages are copied as they are, without being scanned
+  const scanFilter = options.processing.mode === 'document' && !page.imported ? options.processing.filter : null;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      setIsVisible(entries[entries.length - 1].isIntersecting);
+    }, { rootMargin: VISIBILITY_MARGIN });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const sources = sourcesRef.current;
+    if (!isVisible) {
+      sources.clear();
+      return;
+    }
+
+    let cancelled = false;
+
+    const draw = async () => {
+      const urls = new Map<number, string>();
+      await Promise.all(page.images.map(async ({ image }) => {
+        try {
+          urls.set(image.id, await getSourceUrl(image, scanFilter));
+        } catch (error) {
+          console.error(`Failed to scan image ${image.name}:`, error);
+        }
+      }));
+
+      // Only keep the images of this page decoded, and reload those whose picture changed
+      sources.forEach((source, id) => {
+        if (source.src !== urls.get(id)) {
+          sources.delete(id);
+        }
+      });
+
+      await Promise.all(page.images.map(async ({ image }) => {
+        const url = urls.get(image.id);
+        if (!url || sources.has(image.id)) {
+          return;
+        }
+        try {
+          sources.set(image.id, await loadImage(url));
+        } catch (error) {
+          console.error(`Failed to load image ${image.name}:`, error);
+        }
+      }));
+
+      const container = containerRef.current;
+      const canvas = canvasRef.current;
+      if (cancelled || !container || !canvas) {
+        return;
+      }
+
+      const width = Math.max(1, Math.round(container.clientWidth * window.devicePixelRatio));
+      canvas.width = width;
+      canvas.height = Math.max(1, Math.round((width * page.layout.height) / page.layout.width));
+      if (page.imported) {
+        drawImportedPagePreview(canvas, page.layout, sources.get(page.images[0].image.id));
+      } else {
+        drawPagePreview(canvas, page.layout, page.images, sources, options, pageNumber, pageCount);
+      }
+    };
+
+    draw();
+    return () => {
+      cancelled = true;
+    };
+  }, [isVisible, page, options, scanFilter, pageNumber, pageCount]);
+
+  return (
+    <div>
+      <div
+        ref={containerRef}
+        className="bg-white border border-gray-200 shadow-sm"
+        style={{ aspectRatio: `${page.layout.width} / ${page.layout.height}` }}
+      >
+        {isVisible && <canvas ref={canvasRef} className="w-full h-full" />}
+      </div>
+      <p className="text-xs text-gray-500 text-center mt-1">
+        {showPart && `PDF ${page.part + 1} · `}Page {pageNumber}
+      </p>
+    </div>
+  );
+};
+
+// Pages are drawn a few hundred pixels wide, which the grid thumbnails are big enough for
+function getPreviewUrl(image: ImageFile): string {
+  return image.thumbnailUrl ?? image.url;
+}
+
+// In document mode images are drawn as their scanned page, as the PDF will show them
+async function getSourceUrl(image: ImageFile, scanFilter: ScanFilter | null): Promise<string> {
+  return scanFilter
+    ? getScanPreview(
+      getPreviewUrl(image),
+      scanFilter,
+      await getPageGeometry(image.url, image.pageGeometry),
+      SCAN_PREVIEW_SIZE
+    )
+    : getPreviewUrl(image);
+}
+
+export default PagePreview;
@@ -0,0 +1,255 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Check, Download, Pencil, Save, Star, Trash2, Upload, X } from 'lucide-react';
+import { downloadFile } from '../utils/download';
+import {
+  applyPreset,
+  createPreset,
+  exportPresets,
+  isProtectionDropped,
+  loadPresets,
+  parsePresets,
+  savePresets,
+} from '../utils/presetStorage';
+import type { PresetLibrary } from '../utils/presetStorage';
+import { PASSWORDS_NOT_SAVED_MESSAGE } from '../utils/securityOptions';
+import { clearSavedOptions } from '../utils/workspaceStorage';
+import type { ConversionOptions } from '../types';
+
+interface PresetManagerProps {
+  options: ConversionOptions;
+  onOptionsChange: (update: (prev: ConversionOptions) => ConversionOptions) => void;
+}
+
+const ICON_BUTTON_CLASS = 'p-2 border border-gray-300 rounded-lg text-gray-700 hover:border-gray-400 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+const PresetManager: React.FC<PresetManagerProps> = ({ options, onOptionsChange }) => {
+  const [library, setLibrary] = useState<PresetLibrary>(loadPresets);
+  const [selectedId, setSelectedId] = useState(() => library.defaultId ?? '');
+  const [newName, setNewName] = useState('');
+  // The name being typed while renaming the selected preset
+  const [renameValue, setRenameValue] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = library.presets.find(preset => preset.id === selectedId);
+
+  useEffect(() => {
+    savePresets(library);
+  }, [library]);
+
+  const handleSave = useCallback(() => {
+    const name = newName.trim();
+    if (!name) {
+      return;
+    }
+
+    // Saving under an existing name updates that preset
+    const existing = library.presets.find(preset => preset.name === name);
+    const preset = { ...createPreset(name, options), ...(existing && { id: existing.id }) };
+    setLibrary(prev => ({
+      ...prev,
+      presets: existing
+        ? prev.presets.map(item => (item.id === existing.id ? preset : item))
+        : [...prev.presets, preset],
+    }));
+    setSelectedId(preset.id);
+    setNewName('');
+    setMessage({ text: existing ? `Updated "${name}"` : `Saved "${name}"`, isError: false });
+  }, [newName, library.presets, options]);
+
+  const handleLoad = useCallback(() => {
+    if (selected) {
+      onOptionsChange(prev => applyPreset(selected, prev));
+      const text = `Loaded "${selected.name}"`;
+      setMessage({
+        text: isProtectionDropped(selected, options) ? `${text}. ${PASSWORDS_NOT_SAVED_MESSAGE}` : text,
+        isError: false,
+      });
+    }
+  }, [selected, options, onOptionsChange]);
+
+  const handleRename = useCallback(() => {
+    const name = renameValue?.trim();
+    if (selected && name) {
+      setLibrary(prev => ({
+        ...prev,
+        presets: prev.presets.map(preset => (preset.id === selected.id ? { ...preset, name } : preset)),
+      }));
+    }
+    setRenameValue(null);
+  }, [selected, renameValue]);
+
+  const handleDelete = useCallback(() => {
+    if (!selected) {
+      return;
+    }
+    setLibrary(prev => ({
+      presets: prev.presets.filter(preset => preset.id !== selected.id),
+      defaultId: prev.defaultId === selected.id ? null : prev.defaultId,
+    }));
+    setSelectedId('');
+    setMessage({ text: `Deleted "${selected.name}"`, isError: false });
+  }, [selected]);
+
+  const handleToggleDefault = useCallback(() => {
+    if (!selected) {
+      return;
+    }
+    const isDefault = library.defaultId === selected.id;
+    setLibrary(prev => ({ ...prev, defaultId: isDefault ? null : selected.id }));
+    if (!isDefault) {
+      clearSavedOptions().catch(err => console.error('Failed to clear the saved settings:', err));
+      setMessage({ text: `"${selected.name}" is now the default`, isError: false });
+    }
+  }, [selected, library.defaultId]);
+
+  const handleExport = useCallback(() => {
+    downloadFile(new TextEncoder().encode(exportPresets(library.presets)), 'application/json', 'conversion-presets.json');
+  }, [library.presets]);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const imported = parsePresets(await file.text(), options);
+      const importedNames = new Set(imported.map(preset => preset.name));
+      // Imported presets replace saved ones with the same name
+      setLibrary(prev => {
+        const replaced = prev.presets.filter(preset => importedNames.has(preset.name));
+        return {
+          presets: [...prev.presets.filter(preset => !importedNames.has(preset.name)), ...imported],
+          defaultId: replaced.some(preset => preset.id === prev.defaultId) ? null : prev.defaultId,
+        };
+      });
+      setSelectedId('');
+      setMessage({ text: `Imported ${imported.length} preset${imported.length > 1 ? 's' : ''}`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'The presets could not be imported.', isError: true });
+    }
+  }, [options]);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Presets
+      </label>
+
+      {library.presets.length > 0 && (
+        <div className="flex gap-2 mb-2">
+          {renameValue === null ? (
+            <select
+              value={selectedId}
+              onChange={(e) => setSelectedId(e.target.value)}
+              className="flex-1 min-w-0 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-label="Preset"
+            >
+              <option value="">Choose a preset…</option>
+              {library.presets.map(preset => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.id === library.defaultId ? `${preset.name} (default)` : preset.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <>
+              <input
+                type="text"
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename();
+                  if (e.key === 'Escape') setRenameValue(null);
+                }}
+                className="flex-1 min-w-0 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label="Preset name"
+                autoFocus
+              />
+              <button onClick={handleRename} className={ICON_BUTTON_CLASS} title="Save name">
+                <Check className="w-4 h-4" />
+              </button>
+              <button onClick={() => setRenameValue(null)} className={ICON_BUTTON_CLASS} title="Cancel">
+                <X className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {selected && renameValue === null && (
+        <div className="flex gap-2 mb-2">
+          <button
+            onClick={handleLoad}
+            className="flex-1 p-2 rounded-lg text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            Load
+          </button>
+          <button
+            onClick={handleToggleDefault}
+            className={`${ICON_BUTTON_CLASS} ${selected.id === library.defaultId ? 'text-yellow-500' : ''}`}
+            title={selected.id === library.defaultId ? 'Stop using as default' : 'Use as default'}
+            aria-pressed={selected.id === library.defaultId}
+          >
+            <Star className="w-4 h-4" fill={selected.id === library.defaultId ? 'currentColor' : 'none'} />
+          </button>
+          <button onClick={() => setRenameValue(selected.name)} className={ICON_BUTTON_CLASS} title="Rename">
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button onClick={handleDelete} className={`${ICON_BUTTON_CLASS} hover:text-red-600`} title="Delete">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+          }}
+          className="flex-1 min-w-0 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="Save current settings as…"
+          aria-label="New preset name"
+        />
+        <button onClick={handleSave} disabled={!newName.trim()} className={ICON_BUTTON_CLASS} title="Save preset">
+          <Save className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-4 mt-2 text-xs">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center text-blue-600 hover:text-blue-700"
+        >
+          <Upload className="w-3 h-3 mr-1" />
+          Import
+        </button>
+        {library.presets.length > 0 && (
+          <button onClick={handleExport} className="flex items-center text-blue-600 hover:text-blue-700">
+            <Download className="w-3 h-3 mr-1" />
+            Export
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {message && (
+        <p className={`text-xs mt-2 ${message.isError ? 'text-red-600' : 'text-gray-500'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PresetManager;
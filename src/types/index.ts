@@ -1,21 +1,215 @@
+export interface CropRect {
+  // Fractions of the rotated and flipped image, from its top-left corner
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageTransform {
+  rotation: 0 | 90 | 180 | 270;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  crop: CropRect | null;
+}
+
+// Detected from the file's contents, since browsers often leave `File.type` empty for HEIC and TIFF.
+// 'pdf' items are pages of an imported PDF, copied into the output as whole pages.
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif' | 'heic' | 'tiff' | 'bmp' | 'pdf';
+
 export interface ImageFile {
   id: number;
   file: File;
+  // Displayable in an <img>: the file itself, or a rendering of it for formats browsers can't show
   url: string;
+  // A small copy of `url` for the image grid, made in the background after the image is added
+  thumbnailUrl?: string;
   name: string;
   size: number;
+  format: ImageFormat;
+  // Page of a multi-page TIFF or an imported PDF
+  pageIndex?: number;
+  transform?: ImageTransform;
+  // Replaces the document-wide adjustments for this image
+  adjustments?: ImageAdjustments;
+  // Bookmark title, defaulting to the filename
+  label?: string;
+  // Starts a new PDF when the output is split into groups
+  startsGroup?: boolean;
+  // SHA-256 of the file, and a perceptual hash of the picture, for spotting duplicates
+  contentHash?: string;
+  perceptualHash?: string;
+  // When the photo was taken according to its EXIF data, in milliseconds since the epoch
+  capturedAt?: number;
+  // Where document mode found the page in the photo, found once for every size it's scanned at
+  pageGeometry?: PageGeometry;
+}
+
+export interface PageGeometry {
+  // Corners of the sheet of paper clockwise from the top-left, as fractions of the photo's
+  // width and height, or null when no page stands out from the background
+  corners: { x: number; y: number }[] | null;
+  // Rotation in radians that levels the page's lines of text
+  skewAngle: number;
+}
+
+export interface DuplicateMatch {
+  // 'exact' for identical files, 'similar' for the same picture re-saved or resized
+  kind: 'exact' | 'similar';
+  originalId: number;
+}
+
+export type StandardPageSize = 'A3' | 'A4' | 'A5' | 'B5' | 'Letter' | 'Legal' | 'Tabloid';
+
+export interface CustomPageSize {
+  width: number;
+  height: number;
+  unit: 'mm' | 'in';
+}
+
+export interface GridLayout {
+  rows: number;
+  columns: number;
+  // Space between cells, in points
+  gutter: number;
+  // 'fit' shows the whole image, 'fill' covers the cell and crops the overflow
+  fit: 'fit' | 'fill';
+  alignX: 'left' | 'center' | 'right';
+  alignY: 'top' | 'center' | 'bottom';
+}
+
+export interface PageTextOptions {
+  header: string;
+  footer: string;
+  // Adds "Page 3 of 12" to the bottom of every page
+  pageNumbers: boolean;
+  // Shows each image's filename under it
+  captions: boolean;
+}
+
+export interface PageBackground {
+  // 'page' fills the whole page, 'cell' only the grid cells holding images
+  mode: 'none' | 'page' | 'cell';
+  // CSS hex color, e.g. '#ffffff'
+  color: string;
+}
+
+export interface OutputSplit {
+  // 'count' starts a new PDF every `imagesPerPart` images, 'size' whenever a PDF would
+  // grow past `maxSizeMb`, and 'groups' at each image marked with `startsGroup`
+  mode: 'none' | 'count' | 'size' | 'groups';
+  imagesPerPart: number;
+  maxSizeMb: number;
+}
+
+// Password protection applied to each exported PDF
+export interface PdfSecurity {
+  enabled: boolean;
+  encryption: 'aes-256' | 'aes-128';
+  // Needed to open the document; may be empty to only restrict permissions
+  userPassword: string;
+  // Lifts the permission restrictions
+  ownerPassword: string;
+  permissions: PdfPermissions;
+}
+
+export interface PdfPermissions {
+  printing: boolean;
+  copying: boolean;
+  modifying: boolean;
+}
+
+// Applied to each image before it's placed on a page
+export interface ImageProcessing {
+  // 'document' treats each photo as a picture of a sheet of paper: the page is found,
+  // squared up and straightened, as a scanner would give it
+  mode: 'photo' | 'document';
+  // Only applied in document mode
+  filter: 'color' | 'grayscale' | 'black-and-white';
+}
+
+// Tone changes made to each image's pixels before it's encoded
+export interface ImageAdjustments {
+  grayscale: boolean;
+  // From -100 to 100; 0 leaves the image unchanged
+  brightness: number;
+  contrast: number;
+  // Stretches the image's darkest and lightest tones to black and white
+  autoLevels: boolean;
+  // Turns each pixel black or white, splitting at `threshold` (0 to 255)
+  binarize: boolean;
+  threshold: number;
+}
+
+export interface DocumentMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  // Comma-separated
+  keywords: string;
 }
 
 export interface ConversionOptions {
-  pageSize: 'A4' | 'Letter' | 'Legal';
-  orientation: 'portrait' | 'landscape';
+  // 'fit-image' sizes every page to the image placed on it
+  pageSize: StandardPageSize | 'custom' | 'fit-image';
+  customPageSize: CustomPageSize;
+  // 'auto' picks portrait or landscape for each page from the images on it
+  orientation: 'portrait' | 'landscape' | 'auto';
   margin: number;
   quality: 'high' | 'medium' | 'low';
   filename: string;
-  imagesPerPage: 1 | 2 | 4;
+  layout: GridLayout;
+  pageText: PageTextOptions;
+  background: PageBackground;
+  metadata: DocumentMetadata;
+  // Adds an outline entry pointing at each image
+  bookmarks: boolean;
+  processing: ImageProcessing;
+  adjustments: ImageAdjustments;
+  // Recognizes the text in each image and lays it invisibly over the image,
+  // so the PDF can be searched and copied from
+  ocr: boolean;
+  split: OutputSplit;
+  security: PdfSecurity;
+}
+
+// Named settings saved for reuse. Presets saved before a setting existed don't include it.
+export interface ConversionPreset {
+  id: string;
+  name: string;
+  options: Partial<ConversionOptions>;
 }
 
 export type PageSize = {
   width: number;
   height: number;
-};
\ No newline at end of file
+};
+
+export type ImageFailureReason = 'unsupported-format' | 'decode-error' | 'corrupt-png' | 'unreadable-pdf';
+
+export interface ImageConversionResult {
+  id: number;
+  name: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  reason?: ImageFailureReason;
+  message?: string;
+}
+
+export interface PDFGenerationResult {
+  // One PDF, or several when the output is split
+  documents: Uint8Array[];
+  results: ImageConversionResult[];
+}
+
+// What PDF generation is busy with, for the progress display
+export type GenerationStage = 'converting' | 'recognizing-text';
+
+export type PdfWorkerRequest =
+  | { type: 'generate'; images: ImageFile[]; options: ConversionOptions }
+  | { type: 'cancel' };
+
+export type PdfWorkerResponse =
+  | { type: 'progress'; progress: number; stage: GenerationStage }
+  | { type: 'done'; result: PDFGenerationResult }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string };
\ No newline at end of file
@@ -0,0 +1,26 @@
+// The package only ships types for the raw Emscripten module, not for its HeifDecoder wrapper
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  export interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    display(
+      target: { data: Uint8ClampedArray; width: number; height: number },
+      callback: (result: unknown) => void
+    ): void;
+    free(): void;
+  }
+
+  export interface HeifDecoder {
+    // Context holding the most recently decoded file
+    decoder: unknown;
+    decode(data: Uint8Array): HeifImage[];
+  }
+
+  export interface LibHeif {
+    HeifDecoder: new () => HeifDecoder;
+    heif_context_free(context: unknown): void;
+  }
+
+  export default function createLibHeif(): LibHeif;
+}
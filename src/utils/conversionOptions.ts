@@ -0,0 +1,23 @@
+import type { ConversionOptions } from '../types';
+
+// Saved options on top of the current ones. Each group of settings, e.g. `layout`, is merged
+// with the current group, so settings added since the options were saved keep their values.
+export function mergeOptions(options: ConversionOptions, saved: Partial<ConversionOptions>): ConversionOptions {
+  return mergeRecords(options, saved) as unknown as ConversionOptions;
+}
+
+function mergeRecords(base: object, updates: object): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined) {
+      continue;
+    }
+    const baseValue = merged[key];
+    merged[key] = isRecord(baseValue) && isRecord(value) ? mergeRecords(baseValue, value) : value;
+  }
+  return merged;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
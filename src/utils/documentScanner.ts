@@ -0,0 +1,521 @@
+import type { ImageProcessing, PageGeometry, PageSize } from '../types';
+
+export type ScanFilter = ImageProcessing['filter'];
+
+// In pixels from the top-left corner
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners of a page: top-left, top-right, bottom-right, bottom-left
+type Quad = [Point, Point, Point, Point];
+
+// Longest side of a scanned page, A4 at 300 DPI. This also keeps the sums taken by the
+// black and white filter within 32 bits.
+const MAX_SCAN_SIZE = 3508;
+// Longest side of the copy a page's geometry is found on, leaving the page big enough
+// after warping for its skew to be measured
+const GEOMETRY_SIZE = 1024;
+// Longest side of the small copies the page outline and skew are measured on
+const DETECTION_SIZE = 512;
+// Blurring before thresholding keeps text and paper texture from breaking up the page
+const DETECTION_BLUR_RADIUS = 2;
+// A page is only cropped to if it covers between these shares of the photo
+const MIN_PAGE_AREA = 0.2;
+const MAX_PAGE_AREA = 0.95;
+// Skew is looked for up to this many degrees either way
+const MAX_SKEW_DEGREES = 10;
+const SKEW_STEP_DEGREES = 0.5;
+// Share of a page's pixels that must be dark, as text is, for its skew to be measured
+const MIN_INK_SHARE = 0.002;
+const MAX_INK_SHARE = 0.5;
+// Black and white turns pixels black when they are this much darker than their surroundings
+const THRESHOLD_SENSITIVITY = 0.15;
+
+// Finds the sheet of paper in a photo and how far its text is tilted. Found once, on a small
+// copy, it's reused at every size the photo is scanned at so that all of them show the same page.
+export function findPageGeometry(source: CanvasImageSource, width: number, height: number): PageGeometry {
+  let page = drawPhoto(source, width, height, GEOMETRY_SIZE);
+  const photoWidth = page.width;
+  const photoHeight = page.height;
+
+  const corners = findPageCorners(page);
+  if (corners) {
+    page = warpPerspective(page, corners);
+  }
+  return {
+    corners: corners && corners.map(({ x, y }) => ({ x: x / photoWidth, y: y / photoHeight })),
+    skewAngle: findSkewAngle(page),
+  };
+}
+
+// Warps the page found in a photo to a rectangle, straightens its text and applies the filter.
+// Photos in which no page stands out from the background are only straightened and filtered.
+export function scanDocument(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  filter: ScanFilter,
+  geometry: PageGeometry,
+  maxSize = MAX_SCAN_SIZE
+): OffscreenCanvas {
+  let page = drawPhoto(source, width, height, maxSize);
+  if (geometry.corners) {
+    page = warpPerspective(page, toPixels(geometry.corners, page.width, page.height));
+  }
+  page = rotatePage(page, geometry.skewAngle);
+  applyFilter(page, filter);
+  return page;
+}
+
+// Size of the page scanned from a photo of the given size, without scanning it
+export function getScanSize(
+  geometry: PageGeometry,
+  width: number,
+  height: number,
+  maxSize = MAX_SCAN_SIZE
+): PageSize {
+  const { width: photoWidth, height: photoHeight } = getPhotoSize(width, height, maxSize);
+  return geometry.corners
+    ? getWarpSize(toPixels(geometry.corners, photoWidth, photoHeight))
+    : { width: photoWidth, height: photoHeight };
+}
+
+function drawPhoto(source: CanvasImageSource, width: number, height: number, maxSize: number): OffscreenCanvas {
+  const size = getPhotoSize(width, height, maxSize);
+  const photo = new OffscreenCanvas(size.width, size.height);
+  const ctx = getContext(photo);
+  // Transparent parts count as paper
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, photo.width, photo.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, photo.width, photo.height);
+  return photo;
+}
+
+function getPhotoSize(width: number, height: number, maxSize: number): PageSize {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+function toPixels(corners: NonNullable<PageGeometry['corners']>, width: number, height: number): Quad {
+  return corners.map(({ x, y }) => ({ x: x * width, y: y * height })) as Quad;
+}
+
+// The page is taken to be the largest region brighter than the rest of the photo,
+// with its corners at the region's furthest points along the diagonals
+function findPageCorners(canvas: OffscreenCanvas): Quad | null {
+  const { gray, width, height } = readGrayscale(canvas, DETECTION_SIZE);
+  const blurred = boxBlur(gray, width, height, DETECTION_BLUR_RADIUS);
+  const region = findLargestRegion(blurred, width, height, getOtsuThreshold(blurred));
+  const photoArea = width * height;
+  if (!region || region.area < MIN_PAGE_AREA * photoArea || region.area > MAX_PAGE_AREA * photoArea) {
+    return null;
+  }
+  if (!isConvex(region.corners) || getQuadArea(region.corners) < MIN_PAGE_AREA * photoArea) {
+    return null;
+  }
+
+  const scaleX = canvas.width / width;
+  const scaleY = canvas.height / height;
+  return region.corners.map(({ x, y }) => ({ x: (x + 0.5) * scaleX, y: (y + 0.5) * scaleY })) as Quad;
+}
+
+function findLargestRegion(
+  gray: Float32Array,
+  width: number,
+  height: number,
+  threshold: number
+): { area: number; corners: Quad } | null {
+  const visited = new Uint8Array(gray.length);
+  const stack = new Int32Array(gray.length);
+  let largest: { area: number; corners: number[] } | null = null;
+
+  for (let start = 0; start < gray.length; start++) {
+    if (visited[start] || gray[start] <= threshold) {
+      continue;
+    }
+
+    let area = 0;
+    let minSum = Infinity;
+    let maxSum = -Infinity;
+    let minDifference = Infinity;
+    let maxDifference = -Infinity;
+    const corners = [start, start, start, start];
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+
+    const visit = (index: number) => {
+      if (!visited[index] && gray[index] > threshold) {
+        visited[index] = 1;
+        stack[top++] = index;
+      }
+    };
+
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      const y = (index - x) / width;
+      area++;
+
+      if (x + y < minSum) {
+        minSum = x + y;
+        corners[0] = index;
+      }
+      if (x - y > maxDifference) {
+        maxDifference = x - y;
+        corners[1] = index;
+      }
+      if (x + y > maxSum) {
+        maxSum = x + y;
+        corners[2] = index;
+      }
+      if (x - y < minDifference) {
+        minDifference = x - y;
+        corners[3] = index;
+      }
+
+      if (x > 0) visit(index - 1);
+      if (x < width - 1) visit(index + 1);
+      if (y > 0) visit(index - width);
+      if (y < height - 1) visit(index + width);
+    }
+
+    if (!largest || area > largest.area) {
+      largest = { area, corners };
+    }
+  }
+
+  return largest && {
+    area: largest.area,
+    corners: largest.corners.map(index => ({ x: index % width, y: Math.floor(index / width) })) as Quad,
+  };
+}
+
+// A rectangle as wide and tall as the page's longer edges
+function getWarpSize(corners: Quad): PageSize {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  return {
+    width: Math.max(1, Math.round(Math.max(getDistance(topLeft, topRight), getDistance(bottomLeft, bottomRight)))),
+    height: Math.max(1, Math.round(Math.max(getDistance(topLeft, bottomLeft), getDistance(topRight, bottomRight)))),
+  };
+}
+
+// Maps the page's corners onto a rectangle of its warp size
+function warpPerspective(canvas: OffscreenCanvas, corners: Quad): OffscreenCanvas {
+  const { width, height } = getWarpSize(corners);
+  const [h0, h1, h2, h3, h4, h5, h6, h7] = getHomography(width, height, corners);
+
+  const { width: sourceWidth, height: sourceHeight } = canvas;
+  const source = getContext(canvas).getImageData(0, 0, sourceWidth, sourceHeight).data;
+  const output = new ImageData(width, height);
+  const target = output.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Pixel centres, through the homography into the photo
+      const u = x + 0.5;
+      const v = y + 0.5;
+      const w = h6 * u + h7 * v + 1;
+      const sourceX = Math.min(sourceWidth - 1, Math.max(0, (h0 * u + h1 * v + h2) / w - 0.5));
+      const sourceY = Math.min(sourceHeight - 1, Math.max(0, (h3 * u + h4 * v + h5) / w - 0.5));
+
+      // Bilinear interpolation between the four nearest pixels
+      const left = Math.floor(sourceX);
+      const upper = Math.floor(sourceY);
+      const right = Math.min(sourceWidth - 1, left + 1);
+      const lower = Math.min(sourceHeight - 1, upper + 1);
+      const fx = sourceX - left;
+      const fy = sourceY - upper;
+      const i00 = (upper * sourceWidth + left) * 4;
+      const i10 = (upper * sourceWidth + right) * 4;
+      const i01 = (lower * sourceWidth + left) * 4;
+      const i11 = (lower * sourceWidth + right) * 4;
+      const o = (y * width + x) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        const upperValue = source[i00 + channel] + (source[i10 + channel] - source[i00 + channel]) * fx;
+        const lowerValue = source[i01 + channel] + (source[i11 + channel] - source[i01 + channel]) * fx;
+        target[o + channel] = upperValue + (lowerValue - upperValue) * fy;
+      }
+      target[o + 3] = 255;
+    }
+  }
+
+  const warped = new OffscreenCanvas(width, height);
+  getContext(warped).putImageData(output, 0, 0);
+  return warped;
+}
+
+// Coefficients taking a point of the width × height rectangle to the photo:
+// x = (h0·u + h1·v + h2) / (h6·u + h7·v + 1), y = (h3·u + h4·v + h5) / (h6·u + h7·v + 1)
+function getHomography(width: number, height: number, corners: Quad): number[] {
+  const rectangle = [[0, 0], [width, 0], [width, height], [0, height]];
+  const equations = corners.flatMap(({ x, y }, i) => {
+    const [u, v] = rectangle[i];
+    return [
+      [u, v, 1, 0, 0, 0, -u * x, -v * x, x],
+      [0, 0, 0, u, v, 1, -u * y, -v * y, y],
+    ];
+  });
+  return solveLinearSystem(equations);
+}
+
+// Gauss-Jordan elimination of an augmented n × (n + 1) matrix
+function solveLinearSystem(matrix: number[][]): number[] {
+  const n = matrix.length;
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) {
+        pivot = row;
+      }
+    }
+    [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+
+    for (let row = 0; row < n; row++) {
+      if (row !== column) {
+        const factor = matrix[row][column] / matrix[column][column];
+        for (let k = column; k <= n; k++) {
+          matrix[row][k] -= factor * matrix[column][k];
+        }
+      }
+    }
+  }
+  return matrix.map((row, i) => row[n] / row[i]);
+}
+
+// Rotates the page so its lines of text run level, leaving white in the uncovered corners
+function rotatePage(canvas: OffscreenCanvas, angle: number): OffscreenCanvas {
+  if (angle === 0) {
+    return canvas;
+  }
+
+  const { width, height } = canvas;
+  const straightened = new OffscreenCanvas(width, height);
+  const ctx = getContext(straightened);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(angle);
+  ctx.drawImage(canvas, -width / 2, -height / 2);
+  return straightened;
+}
+
+// The rotation, in radians, at which the dark pixels line up into the fewest, fullest rows
+function findSkewAngle(canvas: OffscreenCanvas): number {
+  const { gray, width, height } = readGrayscale(canvas, DETECTION_SIZE);
+  const threshold = getOtsuThreshold(gray);
+  const ink: number[] = [];
+  for (let i = 0; i < gray.length; i++) {
+    if (gray[i] < threshold) {
+      ink.push(i);
+    }
+  }
+  if (ink.length < MIN_INK_SHARE * gray.length || ink.length > MAX_INK_SHARE * gray.length) {
+    return 0;
+  }
+
+  // Rotated rows range from -width to width + height at the largest angles
+  const rows = new Float64Array(2 * width + height + 1);
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES; degrees += SKEW_STEP_DEGREES) {
+    const angle = (degrees * Math.PI) / 180;
+    const sin = Math.sin(angle);
+    const cos = Math.cos(angle);
+    rows.fill(0);
+    for (const index of ink) {
+      const x = index % width;
+      const y = (index - x) / width;
+      rows[Math.round(x * sin + y * cos) + width]++;
+    }
+
+    let score = 0;
+    for (const count of rows) {
+      score += count * count;
+    }
+    // Ties go to the smaller correction
+    if (score > bestScore || (score === bestScore && Math.abs(angle) < Math.abs(bestAngle))) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+function applyFilter(canvas: OffscreenCanvas, filter: ScanFilter): void {
+  if (filter === 'color') {
+    return;
+  }
+
+  const { width, height } = canvas;
+  const ctx = getContext(canvas);
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = getLuminance(data, i * 4);
+  }
+
+  let output = gray;
+  if (filter === 'black-and-white') {
+    // Comparing each pixel with the mean of its surroundings copes with shadows and uneven light
+    const integral = getIntegralImage(gray, width, height);
+    const radius = Math.max(7, Math.round(Math.max(width, height) / 32));
+    output = new Uint8ClampedArray(gray.length);
+    for (let y = 0; y < height; y++) {
+      const top = Math.max(0, y - radius);
+      const bottom = Math.min(height, y + radius + 1);
+      for (let x = 0; x < width; x++) {
+        const left = Math.max(0, x - radius);
+        const right = Math.min(width, x + radius + 1);
+        const sum =
+          integral[bottom * (width + 1) + right] -
+          integral[top * (width + 1) + right] -
+          integral[bottom * (width + 1) + left] +
+          integral[top * (width + 1) + left];
+        const count = (bottom - top) * (right - left);
+        output[y * width + x] = gray[y * width + x] * count < sum * (1 - THRESHOLD_SENSITIVITY) ? 0 : 255;
+      }
+    }
+  }
+
+  for (let i = 0; i < output.length; i++) {
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = output[i];
+  }
+  ctx.putImageData(imageData, 0, 0);
+}
+
+// Sum of the pixels above and to the left of each point, with an extra zero row and column
+function getIntegralImage(gray: Uint8ClampedArray, width: number, height: number): Uint32Array {
+  const integral = new Uint32Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+  return integral;
+}
+
+// A grayscale copy no larger than maxSize on its longest side
+function readGrayscale(canvas: OffscreenCanvas, maxSize: number): { gray: Float32Array; width: number; height: number } {
+  const scale = Math.min(1, maxSize / Math.max(canvas.width, canvas.height));
+  const width = Math.max(1, Math.round(canvas.width * scale));
+  const height = Math.max(1, Math.round(canvas.height * scale));
+  const small = new OffscreenCanvas(width, height);
+  const ctx = getContext(small);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(canvas, 0, 0, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = getLuminance(data, i * 4);
+  }
+  return { gray, width, height };
+}
+
+// Two passes of a running average, across and then down
+function boxBlur(gray: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const size = radius * 2 + 1;
+  const across = new Float32Array(gray.length);
+  const blurred = new Float32Array(gray.length);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let k = -radius; k <= radius; k++) {
+      sum += gray[row + Math.min(width - 1, Math.max(0, k))];
+    }
+    for (let x = 0; x < width; x++) {
+      across[row + x] = sum / size;
+      sum += gray[row + Math.min(width - 1, x + radius + 1)] - gray[row + Math.max(0, x - radius)];
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let k = -radius; k <= radius; k++) {
+      sum += across[Math.min(height - 1, Math.max(0, k)) * width + x];
+    }
+    for (let y = 0; y < height; y++) {
+      blurred[y * width + x] = sum / size;
+      sum += across[Math.min(height - 1, y + radius + 1) * width + x] - across[Math.max(0, y - radius) * width + x];
+    }
+  }
+  return blurred;
+}
+
+// The threshold that best separates the values into a dark and a light group
+function getOtsuThreshold(gray: Float32Array): number {
+  const histogram = new Float64Array(256);
+  let total = 0;
+  for (const value of gray) {
+    const bin = Math.min(255, Math.max(0, Math.round(value)));
+    histogram[bin]++;
+    total += bin;
+  }
+
+  let countBelow = 0;
+  let sumBelow = 0;
+  let bestVariance = -1;
+  let threshold = 127;
+  for (let t = 0; t < 256; t++) {
+    countBelow += histogram[t];
+    sumBelow += t * histogram[t];
+    const countAbove = gray.length - countBelow;
+    if (countBelow === 0 || countAbove === 0) {
+      continue;
+    }
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (total - sumBelow) / countAbove;
+    const variance = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+  return threshold;
+}
+
+function isConvex(quad: Quad): boolean {
+  const crosses = quad.map((point, i) => {
+    const next = quad[(i + 1) % 4];
+    const after = quad[(i + 2) % 4];
+    return (next.x - point.x) * (after.y - next.y) - (next.y - point.y) * (after.x - next.x);
+  });
+  return crosses.every(cross => cross > 0) || crosses.every(cross => cross < 0);
+}
+
+function getQuadArea(quad: Quad): number {
+  let area = 0;
+  quad.forEach((point, i) => {
+    const next = quad[(i + 1) % 4];
+    area += point.x * next.y - next.x * point.y;
+  });
+  return Math.abs(area) / 2;
+}
+
+function getDistance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+function getLuminance(data: Uint8ClampedArray, i: number): number {
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+}
+
+function getContext(canvas: OffscreenCanvas): OffscreenCanvasRenderingContext2D {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  return ctx;
+}
@@ -0,0 +1,13 @@
+// Saves the data as a file through a temporary link
+export function downloadFile(data: Uint8Array, type: string, filename: string) {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
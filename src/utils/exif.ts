@@ -0,0 +1,168 @@
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+const ORIENTATION_TAG = 0x0112;
+const DATE_TIME_TAG = 0x0132;
+const EXIF_IFD_POINTER_TAG = 0x8769;
+const DATE_TIME_ORIGINAL_TAG = 0x9003;
+const ASCII_TYPE = 2;
+
+export function readExifOrientation(bytes: ArrayBuffer): ExifOrientation {
+  try {
+    const tiff = findExifData(new DataView(bytes));
+    if (!tiff) {
+      return 1;
+    }
+
+    const value = readIfd0Short(tiff, ORIENTATION_TAG);
+    return value !== null && value >= 1 && value <= 8 ? (value as ExifOrientation) : 1;
+  } catch {
+    // Truncated or malformed metadata: treat the image as upright
+    return 1;
+  }
+}
+
+// When the photo was taken, from DateTimeOriginal or else the IFD0 DateTime.
+// EXIF dates have no time zone, so they are read as local time.
+export function readExifCaptureDate(bytes: ArrayBuffer): Date | null {
+  try {
+    const tiff = findExifData(new DataView(bytes));
+    const header = tiff && readTiffHeader(tiff);
+    if (!tiff || !header) {
+      return null;
+    }
+
+    const exifIfdEntry = findIfdEntry(tiff, header.ifd0Offset, EXIF_IFD_POINTER_TAG, header.littleEndian);
+    const exifIfdOffset = exifIfdEntry === null ? null : tiff.getUint32(exifIfdEntry + 8, header.littleEndian);
+    const value =
+      (exifIfdOffset !== null && readAscii(tiff, exifIfdOffset, DATE_TIME_ORIGINAL_TAG, header.littleEndian)) ||
+      readAscii(tiff, header.ifd0Offset, DATE_TIME_TAG, header.littleEndian);
+    return value ? parseExifDate(value) : null;
+  } catch {
+    return null;
+  }
+}
+
+function findExifData(view: DataView): DataView | null {
+  // TIFF files are laid out like EXIF data themselves
+  if (view.byteLength >= 2 && (view.getUint16(0) === 0x4949 || view.getUint16(0) === 0x4d4d)) {
+    return view;
+  }
+  if (view.byteLength >= 2 && view.getUint16(0) === 0xffd8) {
+    return findJpegExifData(view);
+  }
+  if (view.byteLength >= 8 && view.getUint32(0) === 0x89504e47 && view.getUint32(4) === 0x0d0a1a0a) {
+    return findPngExifData(view);
+  }
+  return null;
+}
+
+function findJpegExifData(view: DataView): DataView | null {
+  let offset = 2;
+
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+      // Metadata segments always precede the start of scan
+      break;
+    }
+
+    const length = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0"
+    if (
+      marker === 0xffe1 &&
+      view.getUint32(offset + 4) === 0x45786966 &&
+      view.getUint16(offset + 8) === 0
+    ) {
+      return new DataView(view.buffer, view.byteOffset + offset + 10, length - 8);
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+}
+
+function findPngExifData(view: DataView): DataView | null {
+  let offset = 8;
+
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset);
+    const type = view.getUint32(offset + 4);
+    // "eXIf" chunk
+    if (type === 0x65584966) {
+      return new DataView(view.buffer, view.byteOffset + offset + 8, length);
+    }
+    // "IEND" chunk
+    if (type === 0x49454e44) {
+      break;
+    }
+
+    offset += 12 + length;
+  }
+
+  return null;
+}
+
+function readIfd0Short(tiff: DataView, tag: number): number | null {
+  const header = readTiffHeader(tiff);
+  if (!header) {
+    return null;
+  }
+
+  const entryOffset = findIfdEntry(tiff, header.ifd0Offset, tag, header.littleEndian);
+  return entryOffset === null ? null : tiff.getUint16(entryOffset + 8, header.littleEndian);
+}
+
+function readTiffHeader(tiff: DataView): { littleEndian: boolean; ifd0Offset: number } | null {
+  const littleEndian = tiff.getUint16(0) === 0x4949;
+  if (tiff.getUint16(2, littleEndian) !== 42) {
+    return null;
+  }
+  return { littleEndian, ifd0Offset: tiff.getUint32(4, littleEndian) };
+}
+
+function findIfdEntry(tiff: DataView, ifdOffset: number, tag: number, littleEndian: boolean): number | null {
+  const entryCount = tiff.getUint16(ifdOffset, littleEndian);
+
+  for (let i = 0; i < entryCount; i++) {
+    const entryOffset = ifdOffset + 2 + i * 12;
+    if (tiff.getUint16(entryOffset, littleEndian) === tag) {
+      return entryOffset;
+    }
+  }
+
+  return null;
+}
+
+function readAscii(tiff: DataView, ifdOffset: number, tag: number, littleEndian: boolean): string | null {
+  const entryOffset = findIfdEntry(tiff, ifdOffset, tag, littleEndian);
+  if (entryOffset === null || tiff.getUint16(entryOffset + 2, littleEndian) !== ASCII_TYPE) {
+    return null;
+  }
+
+  // Values longer than four bytes are stored elsewhere, at the offset given in the entry
+  const count = tiff.getUint32(entryOffset + 4, littleEndian);
+  const valueOffset = count > 4 ? tiff.getUint32(entryOffset + 8, littleEndian) : entryOffset + 8;
+  let value = '';
+  for (let i = 0; i < count; i++) {
+    const code = tiff.getUint8(valueOffset + i);
+    if (code === 0) {
+      break;
+    }
+    value += String.fromCharCode(code);
+  }
+  return value;
+}
+
+// "YYYY:MM:DD HH:MM:SS"; unknown parts are written as spaces or zeros
+function parseExifDate(value: string): Date | null {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  if (year === 0 || month === 0 || day === 0) {
+    return null;
+  }
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+}
@@ -0,0 +1,61 @@
+import type { ImageFormat } from '../types';
+
+// Enough for the magic numbers, the brand list of an ISO-BMFF 'ftyp' box, and a PDF header
+const SIGNATURE_BYTES = 64;
+
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+// Identifies an image by its magic bytes rather than its MIME type, which is often missing or wrong
+export async function detectImageFormat(file: Blob): Promise<ImageFormat | null> {
+  const bytes = new Uint8Array(await file.slice(0, SIGNATURE_BYTES).arrayBuffer());
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') {
+    return 'png';
+  }
+  if (ascii(0, 4) === 'GIF8') {
+    return 'gif';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  if (ascii(0, 2) === 'BM') {
+    return 'bmp';
+  }
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') {
+    return 'tiff';
+  }
+  // PDF readers accept a few junk bytes before the header
+  if (ascii(0, bytes.length).includes('%PDF-')) {
+    return 'pdf';
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    return getIsoBrandFormat(bytes);
+  }
+  return null;
+}
+
+// AVIF and HEIC share the HEIF container; the major and compatible brands tell them apart.
+// AVIF is checked first because AVIF files often also list the generic 'mif1' brand.
+function getIsoBrandFormat(bytes: Uint8Array): ImageFormat | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxEnd = Math.min(view.getUint32(0), bytes.length);
+  const brands: string[] = [];
+
+  // Major brand at 8, minor version at 12, then compatible brands
+  for (let offset = 8; offset + 4 <= boxEnd; offset += offset === 8 ? 8 : 4) {
+    brands.push(String.fromCharCode(...bytes.subarray(offset, offset + 4)));
+  }
+
+  if (brands.some(brand => AVIF_BRANDS.includes(brand))) {
+    return 'avif';
+  }
+  if (brands.some(brand => HEIC_BRANDS.includes(brand))) {
+    return 'heic';
+  }
+  return null;
+}
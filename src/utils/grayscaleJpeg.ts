@@ -0,0 +1,235 @@
+// A baseline JPEG encoder for single-channel images. Canvas encoders always write three
+// color channels, even for a grey picture, which PDF readers then have to carry around.
+
+// Luminance quantization table from the JPEG standard (Annex K), in natural order
+const BASE_QUANTIZATION = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+// Natural-order index of each coefficient in zigzag order
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// Standard luminance Huffman tables: the number of codes of each length from 1 to 16 bits,
+// then the symbols they stand for
+const DC_CODE_COUNTS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_SYMBOLS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+const AC_CODE_COUNTS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d];
+const AC_SYMBOLS = [
+  0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+  0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+  0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+  0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+  0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+  0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+  0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+  0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+  0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+  0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa,
+];
+const END_OF_BLOCK = 0x00;
+const ZERO_RUN = 0xf0;
+
+// cos((2x + 1)uπ / 16) for each pixel position x and frequency u, scaled for the 8 × 8 DCT
+const DCT_FACTORS = (() => {
+  const factors = new Float64Array(64);
+  for (let u = 0; u < 8; u++) {
+    const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+    for (let x = 0; x < 8; x++) {
+      factors[u * 8 + x] = scale * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return factors;
+})();
+
+interface HuffmanCode {
+  code: number;
+  length: number;
+}
+
+// Encodes 8-bit grey samples, one per pixel in rows from the top, at a canvas-style quality from 0 to 1
+export function encodeGrayscaleJpeg(samples: Uint8Array, width: number, height: number, quality: number): Uint8Array {
+  const quantization = getQuantizationTable(quality);
+  const dcCodes = getHuffmanCodes(DC_CODE_COUNTS, DC_SYMBOLS);
+  const acCodes = getHuffmanCodes(AC_CODE_COUNTS, AC_SYMBOLS);
+  const writer = new ByteWriter(width * height / 4 + 1024);
+
+  writer.writeBytes([0xff, 0xd8]);
+  // JFIF header: version 1.1, square pixels
+  writer.writeBytes([0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00]);
+  writer.writeBytes([0xff, 0xdb, 0x00, 0x43, 0x00]);
+  writer.writeBytes(ZIGZAG.map(index => quantization[index]));
+  // Frame header: 8-bit samples, one component without subsampling
+  writer.writeBytes([0xff, 0xc0, 0x00, 0x0b, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x01, 0x01, 0x11, 0x00]);
+  const huffmanLength = 2 + 17 + DC_SYMBOLS.length + 17 + AC_SYMBOLS.length;
+  writer.writeBytes([0xff, 0xc4, huffmanLength >> 8, huffmanLength & 0xff]);
+  writer.writeBytes([0x00, ...DC_CODE_COUNTS, ...DC_SYMBOLS, 0x10, ...AC_CODE_COUNTS, ...AC_SYMBOLS]);
+  writer.writeBytes([0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00]);
+
+  const block = new Float64Array(64);
+  const rowsDone = new Float64Array(64);
+  const coefficients = new Int32Array(64);
+  let previousDc = 0;
+
+  for (let blockY = 0; blockY < height; blockY += 8) {
+    for (let blockX = 0; blockX < width; blockX += 8) {
+      // Blocks that run past the edge repeat the last row and column
+      for (let y = 0; y < 8; y++) {
+        const row = Math.min(blockY + y, height - 1) * width;
+        for (let x = 0; x < 8; x++) {
+          block[y * 8 + x] = samples[row + Math.min(blockX + x, width - 1)] - 128;
+        }
+      }
+
+      // The 2D DCT as a 1D transform of the rows, then of the columns
+      for (let y = 0; y < 8; y++) {
+        for (let u = 0; u < 8; u++) {
+          let sum = 0;
+          for (let x = 0; x < 8; x++) {
+            sum += DCT_FACTORS[u * 8 + x] * block[y * 8 + x];
+          }
+          rowsDone[y * 8 + u] = sum;
+        }
+      }
+      for (let v = 0; v < 8; v++) {
+        for (let u = 0; u < 8; u++) {
+          let sum = 0;
+          for (let y = 0; y < 8; y++) {
+            sum += DCT_FACTORS[v * 8 + y] * rowsDone[y * 8 + u];
+          }
+          coefficients[v * 8 + u] = Math.round(sum / quantization[v * 8 + u]);
+        }
+      }
+
+      const dc = coefficients[0];
+      writeCoefficient(writer, dcCodes[getBitLength(dc - previousDc)], dc - previousDc);
+      previousDc = dc;
+
+      let zeros = 0;
+      for (let i = 1; i < 64; i++) {
+        const value = coefficients[ZIGZAG[i]];
+        if (value === 0) {
+          zeros++;
+          continue;
+        }
+        while (zeros >= 16) {
+          writer.writeBits(acCodes[ZERO_RUN].code, acCodes[ZERO_RUN].length);
+          zeros -= 16;
+        }
+        writeCoefficient(writer, acCodes[(zeros << 4) | getBitLength(value)], value);
+        zeros = 0;
+      }
+      if (zeros > 0) {
+        writer.writeBits(acCodes[END_OF_BLOCK].code, acCodes[END_OF_BLOCK].length);
+      }
+    }
+  }
+
+  writer.flushBits();
+  writer.writeBytes([0xff, 0xd9]);
+  return writer.getBytes();
+}
+
+// The standard table scaled the way libjpeg does for its 1 to 100 quality setting
+function getQuantizationTable(quality: number): number[] {
+  const percent = Math.min(100, Math.max(1, Math.round(quality * 100)));
+  const scale = percent < 50 ? 5000 / percent : 200 - percent * 2;
+  return BASE_QUANTIZATION.map(value => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+}
+
+// Canonical Huffman codes, indexed by symbol
+function getHuffmanCodes(codeCounts: number[], symbols: number[]): HuffmanCode[] {
+  const codes: HuffmanCode[] = [];
+  let code = 0;
+  let symbolIndex = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < codeCounts[length - 1]; i++) {
+      codes[symbols[symbolIndex++]] = { code, length };
+      code++;
+    }
+    code <<= 1;
+  }
+  return codes;
+}
+
+// A coefficient is written as the code for its bit length, then its value in that many bits,
+// with negative values stored as one less than themselves
+function writeCoefficient(writer: ByteWriter, huffmanCode: HuffmanCode, value: number): void {
+  writer.writeBits(huffmanCode.code, huffmanCode.length);
+  const length = getBitLength(value);
+  if (length > 0) {
+    writer.writeBits(value < 0 ? value + (1 << length) - 1 : value, length);
+  }
+}
+
+function getBitLength(value: number): number {
+  let length = 0;
+  for (let magnitude = Math.abs(value); magnitude > 0; magnitude >>= 1) {
+    length++;
+  }
+  return length;
+}
+
+class ByteWriter {
+  private bytes: Uint8Array;
+  private length = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(initialSize: number) {
+    this.bytes = new Uint8Array(Math.ceil(initialSize));
+  }
+
+  writeBytes(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) {
+      this.writeByte(values[i]);
+    }
+  }
+
+  // Entropy-coded data, in which a 0xff byte must be followed by a zero so it isn't read as a marker
+  writeBits(value: number, count: number): void {
+    this.bitBuffer = (this.bitBuffer << count) | (value & ((1 << count) - 1));
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      const byte = (this.bitBuffer >> (this.bitCount - 8)) & 0xff;
+      this.writeByte(byte);
+      if (byte === 0xff) {
+        this.writeByte(0x00);
+      }
+      this.bitCount -= 8;
+    }
+    this.bitBuffer &= (1 << this.bitCount) - 1;
+  }
+
+  // Pads the last byte with one bits
+  flushBits(): void {
+    if (this.bitCount > 0) {
+      this.writeBits(0x7f, 8 - this.bitCount);
+    }
+  }
+
+  getBytes(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+
+  private writeByte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+}
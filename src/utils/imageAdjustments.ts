@@ -0,0 +1,99 @@
+import type { ImageAdjustments } from '../types';
+
+export const NEUTRAL_ADJUSTMENTS: ImageAdjustments = {
+  grayscale: false,
+  brightness: 0,
+  contrast: 0,
+  autoLevels: false,
+  binarize: false,
+  threshold: 128,
+};
+
+// Share of the darkest and of the lightest pixels that auto-levels lets clip,
+// so a few specks of dust or glare don't stop the stretch
+const LEVELS_CLIP = 0.005;
+
+export function isNeutralAdjustments(adjustments: ImageAdjustments): boolean {
+  return (
+    !adjustments.grayscale &&
+    adjustments.brightness === 0 &&
+    adjustments.contrast === 0 &&
+    !adjustments.autoLevels &&
+    !adjustments.binarize
+  );
+}
+
+// Applies the adjustments to a canvas's pixels in place
+export function adjustCanvas(canvas: HTMLCanvasElement | OffscreenCanvas, adjustments: ImageAdjustments): void {
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  adjustPixels(imageData.data, adjustments);
+  ctx.putImageData(imageData, 0, 0);
+}
+
+// Levels, brightness and contrast come first, as one curve applied to every channel;
+// grayscale and binarize then work on the result's luminance
+function adjustPixels(data: Uint8ClampedArray, adjustments: ImageAdjustments): void {
+  const { grayscale, brightness, contrast, autoLevels, binarize, threshold } = adjustments;
+  const [low, high] = autoLevels ? getLevels(data) : [0, 255];
+  const offset = brightness * 2.55;
+  // The usual contrast curve, a line through mid-grey that's flat at -100 and a step at 100
+  const steepness = contrast * 2.55;
+  const factor = (259 * (steepness + 255)) / (255 * (259 - steepness));
+
+  // Uint8ClampedArray rounds and clamps the curve for us
+  const curve = new Uint8ClampedArray(256);
+  for (let value = 0; value < 256; value++) {
+    const levelled = ((value - low) * 255) / Math.max(1, high - low);
+    curve[value] = factor * (levelled + offset - 128) + 128;
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = curve[data[i]];
+    const g = curve[data[i + 1]];
+    const b = curve[data[i + 2]];
+    if (grayscale || binarize) {
+      const luminance = Math.round(getLuminance(r, g, b));
+      data[i] = data[i + 1] = data[i + 2] = binarize ? (luminance >= threshold ? 255 : 0) : luminance;
+    } else {
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    }
+  }
+}
+
+// Darkest and lightest luminance of the visible pixels, ignoring the clipped extremes
+function getLevels(data: Uint8ClampedArray): [number, number] {
+  const histogram = new Uint32Array(256);
+  let count = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] > 0) {
+      histogram[Math.round(getLuminance(data[i], data[i + 1], data[i + 2]))]++;
+      count++;
+    }
+  }
+
+  const clipped = count * LEVELS_CLIP;
+  let low = 0;
+  let darker = histogram[0];
+  while (darker <= clipped && low < 255) {
+    low++;
+    darker += histogram[low];
+  }
+  let high = 255;
+  let lighter = histogram[255];
+  while (lighter <= clipped && high > 0) {
+    high--;
+    lighter += histogram[high];
+  }
+  return high > low ? [low, high] : [0, 255];
+}
+
+function getLuminance(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
@@ -0,0 +1,240 @@
+import { zlibSync } from 'fflate';
+import { readExifOrientation } from './exif';
+import type { ExifOrientation } from './exif';
+import { encodeGrayscaleJpeg } from './grayscaleJpeg';
+import { adjustCanvas, isNeutralAdjustments } from './imageAdjustments';
+import type { ImageAdjustments, ImageFormat } from '../types';
+
+export interface CompressionSettings {
+  jpegQuality: number;
+  maxDpi: number;
+}
+
+export interface CompressedImage {
+  bytes: ArrayBuffer;
+  // 'gray' is zlib-compressed grey samples, which a PDF can hold without any image format around them
+  format: 'png' | 'jpeg' | 'gray';
+  // Orientation still to be applied when drawing; re-encoded pixels are already upright
+  orientation: ExifOrientation;
+  // Layout of 'gray' samples, which have no header of their own
+  samples?: GraySamples;
+}
+
+export interface GraySamples {
+  width: number;
+  height: number;
+  // 1-bit samples are black and white images, packed eight pixels to a byte
+  bitsPerComponent: 1 | 8;
+}
+
+const POINTS_PER_INCH = 72;
+
+// Formats that may carry an alpha channel, which JPEG would lose
+const ALPHA_FORMATS: ImageFormat[] = ['png', 'gif', 'webp', 'avif', 'heic', 'tiff', 'bmp'];
+// Lossless sources, which often compress better as PNG than as JPEG
+const LOSSLESS_FORMATS: ImageFormat[] = ['png', 'gif', 'tiff', 'bmp'];
+// Channels may differ by this much in a pixel of a grey image, after lossy decoding
+const GRAY_TOLERANCE = 2;
+
+export async function compressImage(
+  // The original file, embedded unchanged when possible; null when the pixels have been processed
+  file: File | null,
+  sourceFormat: ImageFormat,
+  image: ImageBitmap,
+  drawWidth: number,
+  drawHeight: number,
+  settings: CompressionSettings,
+  adjustments: ImageAdjustments,
+  // Color behind the image on the page, which JPEG output is flattened onto
+  backgroundColor: string
+): Promise<CompressedImage> {
+  // Bitmaps are decoded with EXIF orientation applied, so these are upright dimensions.
+  // Never upsample: only shrink images whose pixel density exceeds the target DPI
+  const scale = Math.min(
+    1,
+    (drawWidth / POINTS_PER_INCH) * settings.maxDpi / image.width,
+    (drawHeight / POINTS_PER_INCH) * settings.maxDpi / image.height
+  );
+  const needsResize = scale < 1;
+
+  const canvas = imageToCanvas(
+    image,
+    Math.max(1, Math.round(image.width * scale)),
+    Math.max(1, Math.round(image.height * scale))
+  );
+
+  const adjusted = !isNeutralAdjustments(adjustments);
+  if (adjusted) {
+    adjustCanvas(canvas, adjustments);
+  }
+
+  const candidates: CompressedImage[] = [];
+
+  // PNG and JPEG files can be embedded as they are
+  const reusesFile =
+    file !== null && (sourceFormat === 'png' || sourceFormat === 'jpeg') && !needsResize && !adjusted;
+  const reusesPng = reusesFile && sourceFormat === 'png';
+  if (reusesFile) {
+    const bytes = await file.arrayBuffer();
+    candidates.push({ bytes, format: sourceFormat, orientation: readExifOrientation(bytes) });
+  }
+
+  if (ALPHA_FORMATS.includes(sourceFormat) && hasTransparency(canvas)) {
+    // JPEG has no alpha channel, so transparent images must become PNG
+    if (!reusesPng) {
+      candidates.push({
+        bytes: await canvasToBytes(canvas, 'image/png'),
+        format: 'png',
+        orientation: 1,
+      });
+    }
+  } else {
+    // JPEG has no alpha channel, so compose onto the color the PDF shows behind the image
+    // rather than leaving it to the encoder, which turns transparent pixels black
+    const opaqueCanvas = ALPHA_FORMATS.includes(sourceFormat) ? flattenCanvas(canvas, backgroundColor) : canvas;
+    const gray = readGraySamples(opaqueCanvas);
+    if (gray) {
+      // Grey images get a single channel, which canvas encoders can't write
+      const { width, height } = opaqueCanvas;
+      candidates.push({
+        bytes: toArrayBuffer(encodeGrayscaleJpeg(gray, width, height, settings.jpegQuality)),
+        format: 'jpeg',
+        orientation: 1,
+      });
+      if (isBlackAndWhite(gray)) {
+        candidates.push(compressGraySamples(packBits(gray, width, height), { width, height, bitsPerComponent: 1 }));
+      } else if (LOSSLESS_FORMATS.includes(sourceFormat)) {
+        candidates.push(compressGraySamples(gray, { width, height, bitsPerComponent: 8 }));
+      }
+    } else {
+      candidates.push({
+        bytes: await canvasToBytes(opaqueCanvas, 'image/jpeg', settings.jpegQuality),
+        format: 'jpeg',
+        orientation: 1,
+      });
+      if (LOSSLESS_FORMATS.includes(sourceFormat) && !reusesPng) {
+        candidates.push({
+          bytes: await canvasToBytes(canvas, 'image/png'),
+          format: 'png',
+          orientation: 1,
+        });
+      }
+    }
+  }
+
+  return candidates.reduce((smallest, candidate) =>
+    candidate.bytes.byteLength < smallest.bytes.byteLength ? candidate : smallest
+  );
+}
+
+// Loads an ImageFile's display URL, which every format has
+export async function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = (error) => reject(error);
+    img.src = url;
+  });
+}
+
+function imageToCanvas(image: ImageBitmap, width: number, height: number): OffscreenCanvas {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+  return canvas;
+}
+
+function flattenCanvas(canvas: OffscreenCanvas, color: string): OffscreenCanvas {
+  const flattened = new OffscreenCanvas(canvas.width, canvas.height);
+  const ctx = flattened.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, flattened.width, flattened.height);
+  ctx.drawImage(canvas, 0, 0);
+  return flattened;
+}
+
+function hasTransparency(canvas: OffscreenCanvas): boolean {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return false;
+  }
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function canvasToBytes(
+  canvas: OffscreenCanvas,
+  type: 'image/png' | 'image/jpeg',
+  quality?: number
+): Promise<ArrayBuffer> {
+  const blob = await canvas.convertToBlob({ type, quality });
+  return blob.arrayBuffer();
+}
+
+// One byte per pixel when every pixel is grey, otherwise null
+function readGraySamples(canvas: OffscreenCanvas): Uint8Array | null {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return null;
+  }
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const samples = new Uint8Array(canvas.width * canvas.height);
+  for (let i = 0; i < samples.length; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    if (Math.abs(r - g) > GRAY_TOLERANCE || Math.abs(g - b) > GRAY_TOLERANCE || Math.abs(r - b) > GRAY_TOLERANCE) {
+      return null;
+    }
+    samples[i] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+  }
+  return samples;
+}
+
+function isBlackAndWhite(samples: Uint8Array): boolean {
+  return samples.every(value => value === 0 || value === 255);
+}
+
+// 1-bit samples, with each row starting on a new byte; a set bit is white
+function packBits(samples: Uint8Array, width: number, height: number): Uint8Array {
+  const rowBytes = Math.ceil(width / 8);
+  const packed = new Uint8Array(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (samples[y * width + x] === 255) {
+        packed[y * rowBytes + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return packed;
+}
+
+function compressGraySamples(samples: Uint8Array, layout: GraySamples): CompressedImage {
+  return {
+    bytes: toArrayBuffer(zlibSync(samples, { level: 9 })),
+    format: 'gray',
+    orientation: 1,
+    samples: layout,
+  };
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
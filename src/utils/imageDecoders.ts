@@ -0,0 +1,148 @@
+import type { HeifImage, LibHeif } from 'libheif-js/libheif-wasm/libheif-bundle.mjs';
+import type { IFD } from 'utif';
+import type { ImageFormat, PageSize } from '../types';
+
+type Utif = typeof import('utif');
+
+// Longest side of the images rendered for display when the browser can't show the file itself
+const PREVIEW_MAX_SIZE = 2048;
+const PREVIEW_JPEG_QUALITY = 0.9;
+
+// TIFF NewSubfileType flag marking reduced-resolution copies of another page
+const TIFF_REDUCED_IMAGE = 1;
+
+// Both decoders are large, so they are only loaded once a HEIC or TIFF file turns up
+let libheifPromise: Promise<LibHeif> | null = null;
+let utifPromise: Promise<Utif> | null = null;
+
+// Works on the main thread and in workers, unlike HTMLImageElement
+export async function decodeImage(file: Blob, format: ImageFormat, pageIndex = 0): Promise<ImageBitmap> {
+  if (format === 'heic') {
+    return createImageBitmap(await decodeHeic(file));
+  }
+  if (format === 'tiff') {
+    return createImageBitmap(await decodeTiff(file, pageIndex));
+  }
+  return createImageBitmap(file, { imageOrientation: 'from-image' });
+}
+
+// URL an <img> can display, rendering formats browsers don't support to PNG or JPEG
+export async function createPreviewUrl(file: Blob, format: ImageFormat, pageIndex = 0): Promise<string> {
+  if (format !== 'heic' && format !== 'tiff') {
+    return URL.createObjectURL(file);
+  }
+
+  const imageData = format === 'heic' ? await decodeHeic(file) : await decodeTiff(file, pageIndex);
+  const scale = Math.min(1, PREVIEW_MAX_SIZE / Math.max(imageData.width, imageData.height));
+  const width = Math.max(1, Math.round(imageData.width * scale));
+  const height = Math.max(1, Math.round(imageData.height * scale));
+
+  const bitmap = await createImageBitmap(imageData, {
+    resizeWidth: width,
+    resizeHeight: height,
+    resizeQuality: 'high',
+  });
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const blob = await canvas.convertToBlob(
+    hasAlpha(imageData)
+      ? { type: 'image/png' }
+      : { type: 'image/jpeg', quality: PREVIEW_JPEG_QUALITY }
+  );
+  return URL.createObjectURL(blob);
+}
+
+// Size of the primary image, after the rotation and mirroring stored in the file
+export async function readHeicSize(file: Blob): Promise<PageSize> {
+  return withHeicImage(file, image => ({ width: image.get_width(), height: image.get_height() }));
+}
+
+// One entry per page, read from the directory entries without decoding any pixels
+export async function readTiffPageSizes(file: Blob): Promise<PageSize[]> {
+  const UTIF = await loadUtif();
+  return getTiffPages(UTIF, await file.arrayBuffer()).map(page => ({
+    width: Number((page.t256 as number[])[0]),
+    height: Number((page.t257 as number[])[0]),
+  }));
+}
+
+async function decodeHeic(file: Blob): Promise<ImageData> {
+  return withHeicImage(file, image => new Promise<ImageData>((resolve, reject) => {
+    const imageData = new ImageData(image.get_width(), image.get_height());
+    image.display(imageData, (result) => {
+      if (result) {
+        resolve(imageData);
+      } else {
+        reject(new Error('The HEIC image could not be decoded'));
+      }
+    });
+  }));
+}
+
+async function withHeicImage<T>(
+  file: Blob,
+  read: (image: HeifImage) => T | Promise<T>
+): Promise<T> {
+  const libheif = await loadLibheif();
+  const decoder = new libheif.HeifDecoder();
+  const images = decoder.decode(new Uint8Array(await file.arrayBuffer()));
+
+  try {
+    const image = images.find(candidate => candidate.is_primary()) ?? images[0];
+    if (!image) {
+      throw new Error('The HEIC file contains no image');
+    }
+    return await read(image);
+  } finally {
+    images.forEach(image => image.free());
+    libheif.heif_context_free(decoder.decoder);
+  }
+}
+
+async function decodeTiff(file: Blob, pageIndex: number): Promise<ImageData> {
+  const UTIF = await loadUtif();
+  const buffer = await file.arrayBuffer();
+  const page = getTiffPages(UTIF, buffer)[pageIndex];
+  if (!page) {
+    throw new Error(`The TIFF file has no page ${pageIndex + 1}`);
+  }
+
+  UTIF.decodeImage(buffer, page);
+  const rgba = UTIF.toRGBA8(page);
+  return new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.length), page.width, page.height);
+}
+
+function getTiffPages(UTIF: Utif, buffer: ArrayBuffer): IFD[] {
+  return UTIF.decode(buffer).filter(ifd => {
+    const subfileType = ifd.t254 as number[] | undefined;
+    return ifd.t256 && ifd.t257 && !((subfileType?.[0] ?? 0) & TIFF_REDUCED_IMAGE);
+  });
+}
+
+function hasAlpha(imageData: ImageData): boolean {
+  const { data } = imageData;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function loadLibheif(): Promise<LibHeif> {
+  libheifPromise ??= import('libheif-js/libheif-wasm/libheif-bundle.mjs').then(module => module.default());
+  return libheifPromise;
+}
+
+function loadUtif(): Promise<Utif> {
+  // UTIF is CommonJS, so once bundled its functions hang off the default export
+  utifPromise ??= import('utif').then(module => (module as unknown as { default?: Utif }).default ?? module);
+  return utifPromise;
+}
@@ -0,0 +1,95 @@
+import type { DuplicateMatch, ImageFile } from '../types';
+
+// The difference hash compares each pixel with its right neighbour on a 9 × 8 grayscale thumbnail
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+// Hashes differing in at most this many of their 64 bits are taken to be the same picture
+const SIMILAR_HASH_DISTANCE = 6;
+
+// SHA-256 of the file's bytes, as hex
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Difference hash of the displayed image, as 16 hex digits.
+// Images that can't be hashed are left out of the comparison rather than failing the upload.
+export async function getPerceptualHash(url: string): Promise<string | undefined> {
+  try {
+    const blob = await (await fetch(url)).blob();
+    const bitmap = await createImageBitmap(blob, {
+      resizeWidth: HASH_WIDTH,
+      resizeHeight: HASH_HEIGHT,
+      resizeQuality: 'high',
+      imageOrientation: 'from-image',
+    });
+    const canvas = new OffscreenCanvas(HASH_WIDTH, HASH_HEIGHT);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      bitmap.close();
+      return undefined;
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const luminance = (x: number, y: number) => {
+      const i = (y * HASH_WIDTH + x) * 4;
+      return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    };
+
+    let hash = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      let byte = 0;
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        byte = (byte << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+      }
+      hash += byte.toString(16).padStart(2, '0');
+    }
+    return hash;
+  } catch (error) {
+    console.error('Failed to hash image:', error);
+    return undefined;
+  }
+}
+
+// Each image that repeats an earlier one, keyed by its id and pointing at the first occurrence
+export function findDuplicates(images: ImageFile[]): Map<number, DuplicateMatch> {
+  const duplicates = new Map<number, DuplicateMatch>();
+  const originals: ImageFile[] = [];
+
+  for (const image of images) {
+    let match: DuplicateMatch | null = null;
+    for (const original of originals) {
+      if (image.contentHash && image.contentHash === original.contentHash &&
+          (image.pageIndex ?? 0) === (original.pageIndex ?? 0)) {
+        match = { kind: 'exact', originalId: original.id };
+        break;
+      }
+      if (!match && image.perceptualHash && original.perceptualHash &&
+          getHashDistance(image.perceptualHash, original.perceptualHash) <= SIMILAR_HASH_DISTANCE) {
+        match = { kind: 'similar', originalId: original.id };
+      }
+    }
+
+    if (match) {
+      duplicates.set(image.id, match);
+    } else {
+      originals.push(image);
+    }
+  }
+
+  return duplicates;
+}
+
+function getHashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let bits = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
@@ -0,0 +1,89 @@
+import { readExifCaptureDate, readExifOrientation } from './exif';
+import { decodeImage, readHeicSize, readTiffPageSizes } from './imageDecoders';
+import type { ImageFormat, PageSize } from '../types';
+
+// Large enough for the metadata segments that precede the frame header in camera JPEGs
+const HEADER_BYTES = 256 * 1024;
+
+// Upright pixel size of an image, read from its header when possible so that
+// pages can be laid out without decoding every image twice
+export async function readImageSize(file: File, format: ImageFormat, pageIndex = 0): Promise<PageSize> {
+  if (format === 'heic') {
+    return readHeicSize(file);
+  }
+  if (format === 'tiff') {
+    const size = (await readTiffPageSizes(file))[pageIndex];
+    if (!size) {
+      throw new Error(`The TIFF file has no page ${pageIndex + 1}`);
+    }
+    return size;
+  }
+
+  const header = await file.slice(0, HEADER_BYTES).arrayBuffer();
+  const size = parseImageSize(new DataView(header));
+
+  if (!size) {
+    const bitmap = await decodeImage(file, format);
+    const decodedSize = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return decodedSize;
+  }
+
+  // Decoders apply EXIF orientation, and orientations 5-8 are stored rotated by a quarter turn
+  return readExifOrientation(header) >= 5
+    ? { width: size.height, height: size.width }
+    : size;
+}
+
+// When the photo was taken, if its JPEG, PNG or TIFF metadata says
+export async function readCaptureDate(file: File, format: ImageFormat): Promise<Date | null> {
+  if (format !== 'jpeg' && format !== 'png' && format !== 'tiff') {
+    return null;
+  }
+  // A TIFF's metadata can be anywhere in the file
+  const bytes = format === 'tiff' ? await file.arrayBuffer() : await file.slice(0, HEADER_BYTES).arrayBuffer();
+  return readExifCaptureDate(bytes);
+}
+
+function parseImageSize(view: DataView): PageSize | null {
+  try {
+    if (view.getUint16(0) === 0xffd8) {
+      return parseJpegSize(view);
+    }
+    if (view.getUint32(0) === 0x89504e47) {
+      // IHDR is always the first chunk
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+    if (view.getUint32(0) === 0x47494638) {
+      // "GIF8"
+      return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    }
+    if (view.getUint16(0) === 0x424d) {
+      // "BM"; the height is negative for top-down bitmaps
+      return { width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+    }
+  } catch {
+    // Truncated header: fall back to decoding
+  }
+  return null;
+}
+
+function parseJpegSize(view: DataView): PageSize | null {
+  let offset = 2;
+
+  while (offset + 9 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+      break;
+    }
+
+    // Start-of-frame markers, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xffc0 && marker <= 0xffcf && marker !== 0xffc4 && marker !== 0xffc8 && marker !== 0xffcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+
+    offset += 2 + view.getUint16(offset + 2);
+  }
+
+  return null;
+}
@@ -0,0 +1,33 @@
+import type { ImageFile } from '../types';
+
+export type ImageSortKey = 'name' | 'modified' | 'captured' | 'size';
+
+// Compares numbers within names by value, so 'scan-2' comes before 'scan-10'
+const nameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const COMPARATORS: Record<ImageSortKey, (a: ImageFile, b: ImageFile) => number> = {
+  name: (a, b) => nameCollator.compare(a.name, b.name),
+  modified: (a, b) => a.file.lastModified - b.file.lastModified,
+  // Images without a capture date go after the dated ones
+  captured: (a, b) => {
+    if (a.capturedAt === undefined || b.capturedAt === undefined) {
+      return (a.capturedAt === undefined ? 1 : 0) - (b.capturedAt === undefined ? 1 : 0);
+    }
+    return a.capturedAt - b.capturedAt;
+  },
+  size: (a, b) => a.size - b.size,
+};
+
+// Sorted copy of the list. The sort is stable, so the pages of a file stay in order.
+export function sortImages(images: ImageFile[], key: ImageSortKey): ImageFile[] {
+  return [...images].sort(COMPARATORS[key]);
+}
+
+// Moves the given images, in their current order, so that the first of them ends up at
+// `position` (1-based). Positions past the end move them to the end.
+export function moveImages(images: ImageFile[], ids: Set<number>, position: number): ImageFile[] {
+  const moved = images.filter(image => ids.has(image.id));
+  const rest = images.filter(image => !ids.has(image.id));
+  const index = Math.min(rest.length, Math.max(0, Math.round(position) - 1));
+  return [...rest.slice(0, index), ...moved, ...rest.slice(index)];
+}
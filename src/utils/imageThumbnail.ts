@@ -0,0 +1,32 @@
+// Shortest side of a thumbnail, enough for a grid card on a high-density screen
+const THUMBNAIL_SIZE = 400;
+const THUMBNAIL_QUALITY = 0.8;
+
+// A small copy of the displayed image, as an object URL. Images that can't be decoded
+// are left without one and keep showing their full-size URL.
+export async function createThumbnail(url: string): Promise<string | undefined> {
+  try {
+    const blob = await (await fetch(url)).blob();
+    const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.min(bitmap.width, bitmap.height));
+    const canvas = new OffscreenCanvas(
+      Math.max(1, Math.round(bitmap.width * scale)),
+      Math.max(1, Math.round(bitmap.height * scale))
+    );
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      bitmap.close();
+      return undefined;
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    // WebP keeps transparency; browsers that can't encode it fall back to PNG
+    const thumbnail = await canvas.convertToBlob({ type: 'image/webp', quality: THUMBNAIL_QUALITY });
+    return URL.createObjectURL(thumbnail);
+  } catch (error) {
+    console.error('Failed to create thumbnail:', error);
+    return undefined;
+  }
+}
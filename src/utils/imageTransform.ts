@@ -0,0 +1,188 @@
+import type { ExifOrientation } from './exif';
+import type { CropRect, ImageTransform } from '../types';
+
+// Affine map of the unit square in PDF order [a, b, c, d, e, f]:
+// x' = a*x + c*y + e, y' = b*x + d*y + f, with y pointing up
+export type UnitTransform = [number, number, number, number, number, number];
+
+// For each EXIF orientation, maps the stored image onto the displayed image
+const ORIENTATION_TRANSFORMS: Record<ExifOrientation, UnitTransform> = {
+  1: [1, 0, 0, 1, 0, 0],
+  2: [-1, 0, 0, 1, 1, 0],
+  3: [-1, 0, 0, -1, 1, 1],
+  4: [1, 0, 0, -1, 0, 1],
+  5: [0, -1, -1, 0, 1, 1],
+  6: [0, -1, 1, 0, 0, 1],
+  7: [0, 1, 1, 0, 0, 0],
+  8: [0, 1, -1, 0, 1, 0],
+};
+
+// Clockwise rotations share their matrices with the equivalent EXIF orientations
+const ROTATION_ORIENTATIONS: Record<ImageTransform['rotation'], ExifOrientation> = {
+  0: 1,
+  90: 6,
+  180: 3,
+  270: 8,
+};
+
+export const IDENTITY_TRANSFORM: ImageTransform = {
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  crop: null,
+};
+
+export function isIdentityTransform(transform: ImageTransform | undefined): boolean {
+  return !transform || (
+    transform.rotation === 0 &&
+    !transform.flipHorizontal &&
+    !transform.flipVertical &&
+    transform.crop === null
+  );
+}
+
+// Full transform from stored pixels to the displayed image: EXIF orientation first,
+// then the user's rotation, then flips in display space
+export function getDisplayTransform(
+  orientation: ExifOrientation,
+  transform: ImageTransform = IDENTITY_TRANSFORM
+): UnitTransform {
+  let result = ORIENTATION_TRANSFORMS[orientation];
+  result = composeTransforms(ORIENTATION_TRANSFORMS[ROTATION_ORIENTATIONS[transform.rotation]], result);
+  if (transform.flipHorizontal) {
+    result = composeTransforms(ORIENTATION_TRANSFORMS[2], result);
+  }
+  if (transform.flipVertical) {
+    result = composeTransforms(ORIENTATION_TRANSFORMS[4], result);
+  }
+  return result;
+}
+
+// Size of the upright image once rotated and cropped
+export function getTransformedSize(
+  width: number,
+  height: number,
+  transform: ImageTransform = IDENTITY_TRANSFORM
+): { width: number; height: number } {
+  const quarterTurn = transform.rotation === 90 || transform.rotation === 270;
+  const rotatedWidth = quarterTurn ? height : width;
+  const rotatedHeight = quarterTurn ? width : height;
+  const crop = transform.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+
+  return {
+    width: rotatedWidth * crop.width,
+    height: rotatedHeight * crop.height,
+  };
+}
+
+// Rotates the displayed image clockwise by a quarter turn, keeping the crop on the same content
+export function rotateTransform(transform: ImageTransform): ImageTransform {
+  // Behind a single mirror, a clockwise turn of the display is a counter-clockwise turn of the source
+  const step = transform.flipHorizontal !== transform.flipVertical ? 270 : 90;
+  const crop = transform.crop;
+
+  return {
+    ...transform,
+    rotation: ((transform.rotation + step) % 360) as ImageTransform['rotation'],
+    crop: crop && {
+      x: 1 - crop.y - crop.height,
+      y: crop.x,
+      width: crop.height,
+      height: crop.width,
+    },
+  };
+}
+
+export function flipTransform(transform: ImageTransform, axis: 'horizontal' | 'vertical'): ImageTransform {
+  const crop = transform.crop;
+
+  if (axis === 'horizontal') {
+    return {
+      ...transform,
+      flipHorizontal: !transform.flipHorizontal,
+      crop: crop && { ...crop, x: 1 - crop.x - crop.width },
+    };
+  }
+
+  return {
+    ...transform,
+    flipVertical: !transform.flipVertical,
+    crop: crop && { ...crop, y: 1 - crop.y - crop.height },
+  };
+}
+
+// Rectangle the whole displayed image must cover so that its cropped part fills the given box
+export function getUncroppedRect(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  crop: CropRect | null
+): { x: number; y: number; width: number; height: number } {
+  if (!crop) {
+    return { x, y, width, height };
+  }
+
+  const fullWidth = width / crop.width;
+  const fullHeight = height / crop.height;
+  return {
+    x: x - crop.x * fullWidth,
+    // y points up, while the crop is measured from the top edge
+    y: y - (1 - crop.y - crop.height) * fullHeight,
+    width: fullWidth,
+    height: fullHeight,
+  };
+}
+
+// Draws the rotated, flipped and cropped image onto a canvas no larger than maxSize
+export function renderTransformedImage(
+  image: HTMLImageElement,
+  transform: ImageTransform,
+  maxSize: number
+): HTMLCanvasElement {
+  const { width: rotatedWidth, height: rotatedHeight } = getTransformedSize(
+    image.naturalWidth,
+    image.naturalHeight,
+    { ...transform, crop: null }
+  );
+  const crop = transform.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const scale = Math.min(1, maxSize / Math.max(rotatedWidth * crop.width, rotatedHeight * crop.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(rotatedWidth * crop.width * scale));
+  canvas.height = Math.max(1, Math.round(rotatedHeight * crop.height * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.translate(
+    (0.5 - crop.x) * rotatedWidth * scale,
+    (0.5 - crop.y) * rotatedHeight * scale
+  );
+  ctx.scale(transform.flipHorizontal ? -1 : 1, transform.flipVertical ? -1 : 1);
+  ctx.rotate((transform.rotation * Math.PI) / 180);
+  ctx.drawImage(
+    image,
+    (-image.naturalWidth * scale) / 2,
+    (-image.naturalHeight * scale) / 2,
+    image.naturalWidth * scale,
+    image.naturalHeight * scale
+  );
+  return canvas;
+}
+
+// Applies inner first, then outer
+function composeTransforms(outer: UnitTransform, inner: UnitTransform): UnitTransform {
+  const [A, B, C, D, E, F] = outer;
+  const [a, b, c, d, e, f] = inner;
+  return [
+    A * a + C * b,
+    B * a + D * b,
+    A * c + C * d,
+    B * c + D * d,
+    A * e + C * f + E,
+    B * e + D * f + F,
+  ];
+}
@@ -0,0 +1,71 @@
+import { getImagesPerPage, getPageGridLayout } from './pageLayout';
+import type { ConversionOptions, ImageFile, OutputSplit } from '../types';
+
+// Indices of the images that begin a new PDF when splitting by image count or by groups.
+// Splitting by size depends on the encoded images, so it is decided during generation.
+export function getPartStarts(images: ImageFile[], split: OutputSplit): Set<number> {
+  const starts = new Set<number>();
+
+  if (split.mode === 'count') {
+    const imagesPerPart = Math.max(1, Math.round(split.imagesPerPart));
+    for (let index = imagesPerPart; index < images.length; index += imagesPerPart) {
+      starts.add(index);
+    }
+  } else if (split.mode === 'groups') {
+    images.forEach((image, index) => {
+      if (index > 0 && image.startsGroup) {
+        starts.add(index);
+      }
+    });
+  }
+
+  return starts;
+}
+
+// Pages in each PDF of the output, grouped as generatePDF does: imported PDF pages are copied on
+// pages of their own, and they and the start of a new part end the page of images before them
+export function countPartPages(images: ImageFile[], options: ConversionOptions): number[] {
+  const imagesPerPage = getImagesPerPage(getPageGridLayout(options));
+  const partStarts = getPartStarts(images, options.split);
+  const partPageCounts = [0];
+  let pageImageCount = 0;
+
+  const endPage = () => {
+    if (pageImageCount > 0) {
+      partPageCounts[partPageCounts.length - 1]++;
+      pageImageCount = 0;
+    }
+  };
+
+  images.forEach((image, index) => {
+    if (partStarts.has(index)) {
+      endPage();
+      // A new PDF only begins once the previous one has pages
+      if (partPageCounts[partPageCounts.length - 1] > 0) {
+        partPageCounts.push(0);
+      }
+    }
+
+    if (image.format === 'pdf') {
+      endPage();
+      partPageCounts[partPageCounts.length - 1]++;
+      return;
+    }
+
+    pageImageCount++;
+    if (pageImageCount === imagesPerPage) {
+      endPage();
+    }
+  });
+  endPage();
+
+  return partPageCounts;
+}
+
+// Numbered names for the parts of a split output, e.g. 'scans-01.pdf'
+export function getPartFilenames(filename: string, count: number): string[] {
+  const digits = Math.max(2, String(count).length);
+  return Array.from({ length: count }, (_, index) =>
+    `${filename}-${String(index + 1).padStart(digits, '0')}.pdf`
+  );
+}
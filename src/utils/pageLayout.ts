@@ -0,0 +1,266 @@
+import type { ConversionOptions, GridLayout, ImageFile, PageSize, StandardPageSize } from '../types';
+
+// Rectangle on a page in points, measured from the top-left corner
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImagePlacement {
+  // Where the whole image is drawn
+  rect: Rect;
+  // Area the drawing is clipped to, when the image overflows its cell
+  clip: Rect | null;
+}
+
+// An image measured for a page, with its upright size after the user's rotation and crop
+export interface PlacedImage {
+  image: ImageFile;
+  width: number;
+  height: number;
+}
+
+// Page size and image positions for one page, shared by the PDF generator and the preview
+export interface PageLayout {
+  width: number;
+  height: number;
+  slots: { cell: Rect; placement: ImagePlacement }[];
+}
+
+// Most rows or columns a page grid can have
+export const MAX_GRID_SIZE = 10;
+
+export const PAGE_TEXT_SIZE = 9;
+export const CAPTION_TEXT_SIZE = 8;
+
+// Height of the strips reserved for header, footer and caption text
+const PAGE_TEXT_BAND = PAGE_TEXT_SIZE * 2.5;
+const CAPTION_BAND = CAPTION_TEXT_SIZE * 2;
+
+// In points, as in pdf-lib's PageSizes, which isn't imported here to keep pdf-lib out of the main bundle
+const PAGE_SIZES: Record<StandardPageSize, PageSize> = {
+  A3: { width: 841.89, height: 1190.55 },
+  A4: { width: 595.28, height: 841.89 },
+  A5: { width: 419.53, height: 595.28 },
+  B5: { width: 498.9, height: 708.66 },
+  Letter: { width: 612, height: 792 },
+  Legal: { width: 612, height: 1008 },
+  Tabloid: { width: 792, height: 1224 },
+};
+
+const POINTS_PER_UNIT = { mm: 72 / 25.4, in: 72 };
+
+// Pages in 'fit-image' mode show each image at its on-screen size
+const FIT_IMAGE_DPI = 96;
+
+// PDF viewers are only required to support pages between 3 and 14400 points
+const MIN_PAGE_DIMENSION = 3;
+const MAX_PAGE_DIMENSION = 14400;
+
+// Fraction of the free space left of (or above) an image for each alignment
+const ALIGNMENT_OFFSETS = {
+  left: 0,
+  top: 0,
+  center: 0.5,
+  right: 1,
+  bottom: 1,
+};
+
+// Pages sized to their image always hold exactly one
+export function getPageGridLayout(options: ConversionOptions): GridLayout {
+  return options.pageSize === 'fit-image'
+    ? { ...options.layout, rows: 1, columns: 1 }
+    : options.layout;
+}
+
+export function getImagesPerPage(layout: GridLayout): number {
+  return Math.max(1, layout.rows) * Math.max(1, layout.columns);
+}
+
+// Area inside the margins, less the strips taken by header and footer text
+export function getContentArea(options: ConversionOptions, pageWidth: number, pageHeight: number): Rect {
+  const { header, footer } = getPageTextBands(options, pageWidth, pageHeight);
+  const top = options.margin + (header ? PAGE_TEXT_BAND : 0);
+  const bottom = options.margin + (footer ? PAGE_TEXT_BAND : 0);
+
+  return {
+    x: options.margin,
+    y: top,
+    width: Math.max(0, pageWidth - options.margin * 2),
+    height: Math.max(0, pageHeight - top - bottom),
+  };
+}
+
+// Strips just inside the top and bottom margins holding the header, and the footer with page numbers
+export function getPageTextBands(options: ConversionOptions, pageWidth: number, pageHeight: number): {
+  header: Rect | null;
+  footer: Rect | null;
+} {
+  const { header, footer, pageNumbers } = options.pageText;
+  const width = Math.max(0, pageWidth - options.margin * 2);
+
+  return {
+    header: header.trim()
+      ? { x: options.margin, y: options.margin, width, height: PAGE_TEXT_BAND }
+      : null,
+    footer: footer.trim() || pageNumbers
+      ? { x: options.margin, y: pageHeight - options.margin - PAGE_TEXT_BAND, width, height: PAGE_TEXT_BAND }
+      : null,
+  };
+}
+
+// Part of a cell the image may use, leaving room for its caption
+export function getImageArea(cell: Rect, options: ConversionOptions): Rect {
+  if (!options.pageText.captions) {
+    return cell;
+  }
+  return { ...cell, height: Math.max(0, cell.height - CAPTION_BAND) };
+}
+
+// Caption strip directly under the visible image, as wide as its cell
+export function getCaptionRect(cell: Rect, visibleImage: Rect): Rect {
+  return {
+    x: cell.x,
+    y: visibleImage.y + visibleImage.height,
+    width: cell.width,
+    height: CAPTION_BAND,
+  };
+}
+
+// The grid is given for portrait pages and turned with the page, so cells keep their shape
+export function getGridSize(layout: GridLayout, pageWidth: number, pageHeight: number): {
+  rows: number;
+  columns: number;
+} {
+  const rows = Math.max(1, layout.rows);
+  const columns = Math.max(1, layout.columns);
+  return pageWidth > pageHeight ? { rows: columns, columns: rows } : { rows, columns };
+}
+
+export function getCellRect(
+  layout: GridLayout,
+  contentArea: Rect,
+  pageWidth: number,
+  pageHeight: number,
+  slot: number
+): Rect {
+  const { rows, columns } = getGridSize(layout, pageWidth, pageHeight);
+  const cellWidth = Math.max(0, (contentArea.width - layout.gutter * (columns - 1)) / columns);
+  const cellHeight = Math.max(0, (contentArea.height - layout.gutter * (rows - 1)) / rows);
+  const column = slot % columns;
+  const row = Math.floor(slot / columns) % rows;
+
+  return {
+    x: contentArea.x + column * (cellWidth + layout.gutter),
+    y: contentArea.y + row * (cellHeight + layout.gutter),
+    width: cellWidth,
+    height: cellHeight,
+  };
+}
+
+// Scales an image into its cell: 'fit' shows all of it, 'fill' covers the cell and clips the overflow
+export function placeImageInCell(
+  imgWidth: number,
+  imgHeight: number,
+  cell: Rect,
+  layout: GridLayout
+): ImagePlacement {
+  const widthScale = cell.width / imgWidth;
+  const heightScale = cell.height / imgHeight;
+  const scale = layout.fit === 'fill'
+    ? Math.max(widthScale, heightScale)
+    : Math.min(widthScale, heightScale);
+  const width = imgWidth * scale;
+  const height = imgHeight * scale;
+
+  const rect = {
+    x: cell.x + (cell.width - width) * ALIGNMENT_OFFSETS[layout.alignX],
+    y: cell.y + (cell.height - height) * ALIGNMENT_OFFSETS[layout.alignY],
+    width,
+    height,
+  };
+
+  return { rect, clip: layout.fit === 'fill' ? cell : null };
+}
+
+// Part of the placed image that is actually visible
+export function getVisibleRect(placement: ImagePlacement): Rect {
+  const { rect, clip } = placement;
+  if (!clip) {
+    return rect;
+  }
+
+  const x = Math.max(rect.x, clip.x);
+  const y = Math.max(rect.y, clip.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(rect.x + rect.width, clip.x + clip.width) - x),
+    height: Math.max(0, Math.min(rect.y + rect.height, clip.y + clip.height) - y),
+  };
+}
+
+export function layoutPage(options: ConversionOptions, imageSizes: PageSize[]): PageLayout {
+  const { width, height } = getPageSize(options, imageSizes);
+  return { width, height, slots: layoutSlots(options, imageSizes, width, height) };
+}
+
+function getPageSize(options: ConversionOptions, imageSizes: PageSize[]): PageSize {
+  if (options.pageSize === 'fit-image') {
+    const pointsPerPixel = 72 / FIT_IMAGE_DPI;
+    const { width = 1, height = 1 } = imageSizes[0] ?? {};
+    return {
+      width: clampPageDimension(width * pointsPerPixel + options.margin * 2),
+      height: clampPageDimension(height * pointsPerPixel + options.margin * 2),
+    };
+  }
+
+  let size: PageSize;
+  if (options.pageSize === 'custom') {
+    const { width, height, unit } = options.customPageSize;
+    size = {
+      width: clampPageDimension(width * POINTS_PER_UNIT[unit]),
+      height: clampPageDimension(height * POINTS_PER_UNIT[unit]),
+    };
+  } else {
+    size = PAGE_SIZES[options.pageSize];
+  }
+
+  const portrait = { width: Math.min(size.width, size.height), height: Math.max(size.width, size.height) };
+  const landscape = { width: portrait.height, height: portrait.width };
+
+  if (options.orientation === 'auto') {
+    // Pick whichever orientation shows the images on this page the largest
+    return getCoveredArea(landscape, imageSizes, options) > getCoveredArea(portrait, imageSizes, options)
+      ? landscape
+      : portrait;
+  }
+  return options.orientation === 'landscape' ? landscape : portrait;
+}
+
+function getCoveredArea(pageSize: PageSize, imageSizes: PageSize[], options: ConversionOptions): number {
+  return layoutSlots(options, imageSizes, pageSize.width, pageSize.height).reduce((area, { placement }) => {
+    const visible = getVisibleRect(placement);
+    return area + visible.width * visible.height;
+  }, 0);
+}
+
+function layoutSlots(
+  options: ConversionOptions,
+  imageSizes: PageSize[],
+  pageWidth: number,
+  pageHeight: number
+): PageLayout['slots'] {
+  const layout = getPageGridLayout(options);
+  const contentArea = getContentArea(options, pageWidth, pageHeight);
+  return imageSizes.map(({ width, height }, slot) => {
+    const cell = getCellRect(layout, contentArea, pageWidth, pageHeight, slot);
+    return { cell, placement: placeImageInCell(width, height, getImageArea(cell, options), layout) };
+  });
+}
+
+function clampPageDimension(points: number): number {
+  return Math.min(MAX_PAGE_DIMENSION, Math.max(MIN_PAGE_DIMENSION, points || MIN_PAGE_DIMENSION));
+}
@@ -0,0 +1,168 @@
+import { adjustCanvas, isNeutralAdjustments } from './imageAdjustments';
+import { IDENTITY_TRANSFORM, renderTransformedImage } from './imageTransform';
+import {
+  CAPTION_TEXT_SIZE,
+  PAGE_TEXT_SIZE,
+  getCaptionRect,
+  getPageTextBands,
+  getVisibleRect,
+} from './pageLayout';
+import type { PageLayout, PlacedImage, Rect } from './pageLayout';
+import type { ConversionOptions } from '../types';
+
+// Same grey and typeface as the text drawn into the PDF
+const TEXT_COLOR = 'rgb(77, 77, 77)';
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+// Height of Helvetica capitals relative to the font size
+const CAP_HEIGHT = 0.718;
+const ELLIPSIS = '…';
+const MISSING_IMAGE_COLOR = '#f3f4f6';
+
+// Draws one page the way generatePDF lays it out, scaled to the canvas width.
+// Images missing from `sources` could not be loaded and are drawn as grey boxes.
+export function drawPagePreview(
+  canvas: HTMLCanvasElement,
+  pageLayout: PageLayout,
+  pageImages: PlacedImage[],
+  sources: Map<number, HTMLImageElement>,
+  options: ConversionOptions,
+  pageNumber: number,
+  pageCount: number
+): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  const scale = canvas.width / pageLayout.width;
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  const { mode: backgroundMode, color: backgroundColor } = options.background;
+  ctx.fillStyle = backgroundMode === 'page' ? backgroundColor : '#ffffff';
+  ctx.fillRect(0, 0, pageLayout.width, pageLayout.height);
+
+  pageLayout.slots.forEach(({ cell, placement }, slot) => {
+    const { image } = pageImages[slot];
+    const source = sources.get(image.id);
+    const { rect, clip } = placement;
+
+    if (!source) {
+      const visible = getVisibleRect(placement);
+      ctx.fillStyle = MISSING_IMAGE_COLOR;
+      ctx.fillRect(visible.x, visible.y, visible.width, visible.height);
+    } else {
+      if (backgroundMode === 'cell') {
+        ctx.fillStyle = backgroundColor;
+        ctx.fillRect(cell.x, cell.y, cell.width, cell.height);
+      }
+      const rendered = renderTransformedImage(
+        source,
+        image.transform ?? IDENTITY_TRANSFORM,
+        Math.ceil(Math.max(rect.width, rect.height) * scale)
+      );
+      const adjustments = image.adjustments ?? options.adjustments;
+      if (!isNeutralAdjustments(adjustments)) {
+        adjustCanvas(rendered, adjustments);
+      }
+      ctx.save();
+      if (clip) {
+        ctx.beginPath();
+        ctx.rect(clip.x, clip.y, clip.width, clip.height);
+        ctx.clip();
+      }
+      ctx.drawImage(rendered, rect.x, rect.y, rect.width, rect.height);
+      ctx.restore();
+    }
+
+    if (options.pageText.captions) {
+      drawTextInRect(ctx, image.name, getCaptionRect(cell, getVisibleRect(placement)), CAPTION_TEXT_SIZE, 'center');
+    }
+  });
+
+  drawPageTextPreview(ctx, options, pageLayout, pageNumber, pageCount);
+}
+
+// Draws a page copied from an imported PDF, using its rendered thumbnail. The PDF adds no page text to it.
+export function drawImportedPagePreview(
+  canvas: HTMLCanvasElement,
+  pageLayout: PageLayout,
+  source: HTMLImageElement | undefined
+): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  const scale = canvas.width / pageLayout.width;
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.fillStyle = source ? '#ffffff' : MISSING_IMAGE_COLOR;
+  ctx.fillRect(0, 0, pageLayout.width, pageLayout.height);
+  if (source) {
+    ctx.drawImage(source, 0, 0, pageLayout.width, pageLayout.height);
+  }
+}
+
+function drawPageTextPreview(
+  ctx: CanvasRenderingContext2D,
+  options: ConversionOptions,
+  pageLayout: PageLayout,
+  pageNumber: number,
+  pageCount: number
+): void {
+  const bands = getPageTextBands(options, pageLayout.width, pageLayout.height);
+  const header = options.pageText.header.trim();
+  const footer = options.pageText.footer.trim();
+
+  if (bands.header) {
+    drawTextInRect(ctx, header, bands.header, PAGE_TEXT_SIZE, 'center');
+  }
+  if (bands.footer) {
+    const pageNumberText = options.pageText.pageNumbers ? `Page ${pageNumber} of ${pageCount}` : '';
+    if (footer && pageNumberText) {
+      ctx.font = `${PAGE_TEXT_SIZE}px ${FONT_FAMILY}`;
+      const numberWidth = ctx.measureText(pageNumberText).width;
+      drawTextInRect(ctx, pageNumberText, bands.footer, PAGE_TEXT_SIZE, 'right');
+      drawTextInRect(
+        ctx,
+        footer,
+        { ...bands.footer, width: Math.max(0, bands.footer.width - numberWidth - PAGE_TEXT_SIZE) },
+        PAGE_TEXT_SIZE,
+        'left'
+      );
+    } else {
+      drawTextInRect(ctx, footer || pageNumberText, bands.footer, PAGE_TEXT_SIZE, 'center');
+    }
+  }
+}
+
+function drawTextInRect(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  rect: Rect,
+  size: number,
+  align: 'left' | 'center' | 'right'
+): void {
+  ctx.font = `${size}px ${FONT_FAMILY}`;
+  const line = fitText(ctx, text, rect.width);
+  if (!line) {
+    return;
+  }
+
+  const textWidth = ctx.measureText(line).width;
+  const offset = align === 'left' ? 0 : align === 'center' ? (rect.width - textWidth) / 2 : rect.width - textWidth;
+
+  ctx.fillStyle = TEXT_COLOR;
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(line, rect.x + offset, rect.y + rect.height / 2 + (size * CAP_HEIGHT) / 2);
+}
+
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  let line = text.replace(/\s+/g, ' ').trim();
+  if (ctx.measureText(line).width <= maxWidth) {
+    return line;
+  }
+
+  while (line.length > 0 && ctx.measureText(line + ELLIPSIS).width > maxWidth) {
+    line = line.slice(0, -1);
+  }
+  return line ? line + ELLIPSIS : '';
+}
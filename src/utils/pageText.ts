@@ -0,0 +1,103 @@
+import { rgb } from 'pdf-lib';
+import type { PDFDocument, PDFFont, PDFPage } from 'pdf-lib';
+import { CAPTION_TEXT_SIZE, PAGE_TEXT_SIZE, getPageTextBands } from './pageLayout';
+import type { Rect } from './pageLayout';
+import type { ConversionOptions } from '../types';
+
+const TEXT_COLOR = rgb(0.3, 0.3, 0.3);
+const ELLIPSIS = '…';
+
+export function hasPageText(options: ConversionOptions): boolean {
+  const { header, footer, pageNumbers, captions } = options.pageText;
+  return Boolean(header.trim() || footer.trim() || pageNumbers || captions);
+}
+
+// Header, footer and page numbers go on once all pages exist, so the page count is known.
+// Pages copied from imported PDFs have no room set aside for them, so they're counted but left as they are.
+export function drawPageText(
+  pdfDoc: PDFDocument,
+  font: PDFFont,
+  options: ConversionOptions,
+  importedPages: Set<number>
+): void {
+  const pages = pdfDoc.getPages();
+  const header = options.pageText.header.trim();
+  const footer = options.pageText.footer.trim();
+
+  pages.forEach((page, index) => {
+    if (importedPages.has(index)) {
+      return;
+    }
+    const { width, height } = page.getSize();
+    const bands = getPageTextBands(options, width, height);
+
+    if (bands.header) {
+      drawTextInRect(page, font, header, bands.header, PAGE_TEXT_SIZE, 'center');
+    }
+    if (bands.footer) {
+      const pageNumber = options.pageText.pageNumbers ? `Page ${index + 1} of ${pages.length}` : '';
+      if (footer && pageNumber) {
+        const numberWidth = font.widthOfTextAtSize(pageNumber, PAGE_TEXT_SIZE);
+        drawTextInRect(page, font, pageNumber, bands.footer, PAGE_TEXT_SIZE, 'right');
+        drawTextInRect(
+          page,
+          font,
+          footer,
+          { ...bands.footer, width: Math.max(0, bands.footer.width - numberWidth - PAGE_TEXT_SIZE) },
+          PAGE_TEXT_SIZE,
+          'left'
+        );
+      } else {
+        drawTextInRect(page, font, footer || pageNumber, bands.footer, PAGE_TEXT_SIZE, 'center');
+      }
+    }
+  });
+}
+
+export function drawCaption(page: PDFPage, font: PDFFont, text: string, rect: Rect): void {
+  drawTextInRect(page, font, text, rect, CAPTION_TEXT_SIZE, 'center');
+}
+
+// Draws a single line vertically centred in a rectangle given from the top-left corner of the page
+function drawTextInRect(
+  page: PDFPage,
+  font: PDFFont,
+  text: string,
+  rect: Rect,
+  size: number,
+  align: 'left' | 'center' | 'right'
+): void {
+  const line = fitText(font, text, size, rect.width);
+  if (!line) {
+    return;
+  }
+
+  const textWidth = font.widthOfTextAtSize(line, size);
+  const offset = align === 'left' ? 0 : align === 'center' ? (rect.width - textWidth) / 2 : rect.width - textWidth;
+  const capHeight = font.heightAtSize(size, { descender: false });
+
+  page.drawText(line, {
+    x: rect.x + offset,
+    y: page.getHeight() - (rect.y + rect.height / 2 + capHeight / 2),
+    size,
+    font,
+    color: TEXT_COLOR,
+  });
+}
+
+// Standard fonts only cover WinAnsi, so other characters become '?', and long text is cut with an ellipsis
+function fitText(font: PDFFont, text: string, size: number, maxWidth: number): string {
+  const supported = new Set(font.getCharacterSet());
+  let line = Array.from(text.replace(/\s+/g, ' ').trim())
+    .map(char => (supported.has(char.codePointAt(0) ?? 0) ? char : '?'))
+    .join('');
+
+  if (font.widthOfTextAtSize(line, size) <= maxWidth) {
+    return line;
+  }
+
+  while (line.length > 0 && font.widthOfTextAtSize(line + ELLIPSIS, size) > maxWidth) {
+    line = line.slice(0, -1);
+  }
+  return line ? line + ELLIPSIS : '';
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { PermissionFlag, VerbosityLevel, getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { encryptPdf } from './pdfEncryption';
+import type { PdfPermissions, PdfSecurity } from '../types';
+
+const PAGE_TEXT = 'Quarterly report';
+// Characters outside Latin-1 make pdf-lib store the title as a UTF-16 string
+const TITLE = 'Rapport trimestriel – été';
+
+async function createPdf(): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(TITLE);
+  const page = pdfDoc.addPage([300, 400]);
+  page.drawText(PAGE_TEXT, { x: 20, y: 200, size: 12, font: await pdfDoc.embedFont(StandardFonts.Helvetica) });
+  return pdfDoc.save();
+}
+
+function getSecurity(encryption: PdfSecurity['encryption'], permissions: PdfPermissions): PdfSecurity {
+  return { enabled: true, encryption, userPassword: 'open sesame', ownerPassword: 'owner secret', permissions };
+}
+
+// pdf.js takes ownership of the bytes it's given, so each reader gets a copy. Its warnings about
+// the fonts it can't load here don't affect reading the text.
+async function openPdf(bytes: Uint8Array, password?: string) {
+  const pdf = await getDocument({ data: bytes.slice(), password, verbosity: VerbosityLevel.ERRORS }).promise;
+  const page = await pdf.getPage(1);
+  const text = (await page.getTextContent()).items.map(item => ('str' in item ? item.str : '')).join('');
+  const { info } = await pdf.getMetadata();
+  const permissions = await pdf.getPermissions();
+  await pdf.destroy();
+  return { text, title: (info as { Title?: string }).Title, permissions };
+}
+
+describe('encryptPdf', () => {
+  for (const encryption of ['aes-128', 'aes-256'] as const) {
+    describe(encryption, () => {
+      it('opens with the user password and with the owner password', async () => {
+        const security = getSecurity(encryption, { printing: true, copying: true, modifying: true });
+        const encrypted = await encryptPdf(await createPdf(), security);
+
+        for (const password of [security.userPassword, security.ownerPassword]) {
+          const { text, title } = await openPdf(encrypted, password);
+          expect(text).toBe(PAGE_TEXT);
+          expect(title).toBe(TITLE);
+        }
+      });
+
+      it('rejects a missing or wrong password', async () => {
+        const encrypted = await encryptPdf(
+          await createPdf(),
+          getSecurity(encryption, { printing: true, copying: true, modifying: true })
+        );
+
+        await expect(openPdf(encrypted)).rejects.toMatchObject({ name: 'PasswordException' });
+        await expect(openPdf(encrypted, 'not the password')).rejects.toMatchObject({ name: 'PasswordException' });
+      });
+
+      it('records the chosen permissions', async () => {
+        const encrypted = await encryptPdf(
+          await createPdf(),
+          getSecurity(encryption, { printing: true, copying: false, modifying: false })
+        );
+        const { permissions } = await openPdf(encrypted, 'open sesame');
+
+        expect(permissions).toEqual(expect.arrayContaining([
+          PermissionFlag.PRINT,
+          PermissionFlag.PRINT_HIGH_QUALITY,
+          PermissionFlag.COPY_FOR_ACCESSIBILITY,
+        ]));
+        expect(permissions).not.toContain(PermissionFlag.COPY);
+        expect(permissions).not.toContain(PermissionFlag.MODIFY_CONTENTS);
+        expect(permissions).not.toContain(PermissionFlag.MODIFY_ANNOTATIONS);
+        expect(permissions).not.toContain(PermissionFlag.ASSEMBLE);
+      });
+
+      it('allows everything that was permitted', async () => {
+        const encrypted = await encryptPdf(
+          await createPdf(),
+          getSecurity(encryption, { printing: false, copying: true, modifying: true })
+        );
+        const { permissions } = await openPdf(encrypted, 'open sesame');
+
+        expect(permissions).toEqual(expect.arrayContaining([
+          PermissionFlag.COPY,
+          PermissionFlag.MODIFY_CONTENTS,
+          PermissionFlag.MODIFY_ANNOTATIONS,
+          PermissionFlag.FILL_INTERACTIVE_FORMS,
+          PermissionFlag.ASSEMBLE,
+        ]));
+        expect(permissions).not.toContain(PermissionFlag.PRINT);
+        expect(permissions).not.toContain(PermissionFlag.PRINT_HIGH_QUALITY);
+      });
+    });
+  }
+});
@@ -0,0 +1,379 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFRawStream, PDFString } from 'pdf-lib';
+import type { PDFContext, PDFObject, PDFRef } from 'pdf-lib';
+import { getPasswordError } from './securityOptions';
+import type { PdfPermissions, PdfSecurity } from '../types';
+
+// Extends passwords to 32 bytes for the AES-128 handler (PDF 32000-1, 7.6.3.3)
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+// Permission bits (PDF 32000-1, table 22). Bits 7-8 and 13-32 are reserved and must be set.
+const RESERVED_PERMISSIONS = 0xfffff0c0;
+// Printing, and printing at full quality
+const PERMISSION_PRINT = (1 << 2) | (1 << 11);
+// Changing the content, annotating, filling in forms and rearranging pages
+const PERMISSION_MODIFY = (1 << 3) | (1 << 5) | (1 << 8) | (1 << 10);
+const PERMISSION_COPY = 1 << 4;
+// Screen readers may always extract the text
+const PERMISSION_ACCESSIBILITY = 1 << 9;
+
+const AES_BLOCK_SIZE = 16;
+// The AES-256 handler ignores anything past this
+const MAX_PASSWORD_BYTES = 127;
+const HASH_ALGORITHMS = ['SHA-256', 'SHA-384', 'SHA-512'];
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32));
+
+interface SecurityHandler {
+  encryptDict: PDFDict;
+  // Encrypts a string or stream belonging to the given indirect object
+  encrypt: (data: Uint8Array, ref: PDFRef) => Promise<Uint8Array>;
+}
+
+type ObjectEncryptor = SecurityHandler['encrypt'];
+
+// Encrypts a PDF with the standard security handler, as readers expect for password protection.
+// Every string and stream is encrypted, and the permissions are recorded in the Encrypt dictionary.
+export async function encryptPdf(pdfBytes: Uint8Array, security: PdfSecurity): Promise<Uint8Array> {
+  const passwordError = getPasswordError(security);
+  if (passwordError) {
+    throw new Error(passwordError);
+  }
+
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const { context } = pdfDoc;
+  const fileId = randomBytes(16);
+  const permissions = getPermissionFlags(security.permissions);
+  // Anyone with the owner password may lift the restrictions, so without one a random
+  // password is used rather than letting the user password unlock everything
+  const ownerPassword = security.ownerPassword || toHex(randomBytes(16));
+
+  const handler = security.encryption === 'aes-256'
+    ? await createAes256Handler(context, security.userPassword, ownerPassword, permissions)
+    : await createAes128Handler(context, security.userPassword, ownerPassword, permissions, fileId);
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFRawStream) {
+      await encryptStrings(object.dict, ref, handler.encrypt);
+      context.assign(ref, PDFRawStream.of(object.dict, await handler.encrypt(object.contents, ref)));
+    } else {
+      context.assign(ref, await encryptStrings(object, ref, handler.encrypt));
+    }
+  }
+
+  // Registered after the loop, since the Encrypt dictionary itself stays readable
+  context.trailerInfo.Encrypt = context.register(handler.encryptDict);
+  context.trailerInfo.ID = context.obj([PDFHexString.of(toHex(fileId)), PDFHexString.of(toHex(fileId))]);
+
+  // Each object is encrypted on its own, so they can't be packed into object streams
+  return pdfDoc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+}
+
+function getPermissionFlags(permissions: PdfPermissions): number {
+  let flags = RESERVED_PERMISSIONS | PERMISSION_ACCESSIBILITY;
+  if (permissions.printing) {
+    flags |= PERMISSION_PRINT;
+  }
+  if (permissions.modifying) {
+    flags |= PERMISSION_MODIFY;
+  }
+  if (permissions.copying) {
+    flags |= PERMISSION_COPY;
+  }
+  // The P entry is a signed 32-bit integer
+  return flags | 0;
+}
+
+async function encryptStrings(object: PDFObject, ref: PDFRef, encrypt: ObjectEncryptor): Promise<PDFObject> {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return PDFHexString.of(toHex(await encrypt(object.asBytes(), ref)));
+  }
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      object.set(key, await encryptStrings(value, ref, encrypt));
+    }
+  } else if (object instanceof PDFArray) {
+    for (let index = 0; index < object.size(); index++) {
+      object.set(index, await encryptStrings(object.get(index), ref, encrypt));
+    }
+  }
+  return object;
+}
+
+// Revision 6 of the standard security handler (PDF 2.0, 7.6.4.4)
+async function createAes256Handler(
+  context: PDFContext,
+  userPassword: string,
+  ownerPassword: string,
+  permissions: number
+): Promise<SecurityHandler> {
+  const fileKey = randomBytes(32);
+  const user = encodePassword(userPassword);
+  const owner = encodePassword(ownerPassword);
+
+  const [userValidationSalt, userKeySalt] = [randomBytes(8), randomBytes(8)];
+  const userEntry = concatBytes(await hashPassword(user, userValidationSalt), userValidationSalt, userKeySalt);
+  const userKey = await encryptBlocks(await hashPassword(user, userKeySalt), fileKey);
+
+  // The owner hashes also cover the user entry
+  const [ownerValidationSalt, ownerKeySalt] = [randomBytes(8), randomBytes(8)];
+  const ownerEntry = concatBytes(
+    await hashPassword(owner, ownerValidationSalt, userEntry),
+    ownerValidationSalt,
+    ownerKeySalt
+  );
+  const ownerKey = await encryptBlocks(await hashPassword(owner, ownerKeySalt, userEntry), fileKey);
+
+  // A copy of the permissions that readers can check hasn't been tampered with
+  const perms = randomBytes(AES_BLOCK_SIZE);
+  const view = new DataView(perms.buffer);
+  view.setInt32(0, permissions, true);
+  view.setUint32(4, 0xffffffff);
+  perms.set([0x54, 0x61, 0x64, 0x62], 8); // 'T' (metadata is encrypted), then 'adb'
+
+  const key = await importAesKey(fileKey);
+  return {
+    encryptDict: context.obj({
+      Filter: 'Standard',
+      V: 5,
+      R: 6,
+      Length: 256,
+      CF: { StdCF: { CFM: 'AESV3', AuthEvent: 'DocOpen', Length: 32 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      O: PDFHexString.of(toHex(ownerEntry)),
+      U: PDFHexString.of(toHex(userEntry)),
+      OE: PDFHexString.of(toHex(ownerKey)),
+      UE: PDFHexString.of(toHex(userKey)),
+      P: permissions,
+      Perms: PDFHexString.of(toHex(await encryptBlocks(fileKey, perms))),
+    }),
+    encrypt: data => encryptAes(key, data),
+  };
+}
+
+// Revision 4 of the standard security handler with the AESV2 crypt filter (PDF 32000-1, 7.6.3)
+async function createAes128Handler(
+  context: PDFContext,
+  userPassword: string,
+  ownerPassword: string,
+  permissions: number,
+  fileId: Uint8Array
+): Promise<SecurityHandler> {
+  const user = padPassword(userPassword);
+  const owner = padPassword(ownerPassword);
+
+  // Algorithm 3: the padded user password, encrypted with a key from the owner password
+  const ownerKey = md5Rounds(md5(owner), 50);
+  const ownerEntry = rc4Rounds(ownerKey, user);
+
+  // Algorithm 2
+  const permissionBytes = new Uint8Array(4);
+  new DataView(permissionBytes.buffer).setInt32(0, permissions, true);
+  const fileKey = md5Rounds(md5(concatBytes(user, ownerEntry, permissionBytes, fileId)), 50);
+
+  // Algorithm 5, with arbitrary padding up to 32 bytes
+  const userEntry = concatBytes(
+    rc4Rounds(fileKey, md5(concatBytes(PASSWORD_PADDING, fileId))),
+    new Uint8Array(16)
+  );
+
+  return {
+    encryptDict: context.obj({
+      Filter: 'Standard',
+      V: 4,
+      R: 4,
+      Length: 128,
+      CF: { StdCF: { CFM: 'AESV2', AuthEvent: 'DocOpen', Length: 16 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      O: PDFHexString.of(toHex(ownerEntry)),
+      U: PDFHexString.of(toHex(userEntry)),
+      P: permissions,
+    }),
+    // Algorithm 1: every object gets its own key
+    encrypt: async (data, ref) => {
+      const { objectNumber, generationNumber } = ref;
+      const objectKey = md5(concatBytes(
+        fileKey,
+        new Uint8Array([
+          objectNumber & 0xff,
+          (objectNumber >> 8) & 0xff,
+          (objectNumber >> 16) & 0xff,
+          generationNumber & 0xff,
+          (generationNumber >> 8) & 0xff,
+        ]),
+        new Uint8Array([0x73, 0x41, 0x6c, 0x54]) // 'sAlT'
+      ));
+      return encryptAes(await importAesKey(objectKey), data);
+    },
+  };
+}
+
+// Algorithm 2.B: a deliberately slow hash of the password
+async function hashPassword(
+  password: Uint8Array,
+  salt: Uint8Array,
+  userEntry = new Uint8Array(0)
+): Promise<Uint8Array> {
+  let hash = await digest('SHA-256', concatBytes(password, salt, userEntry));
+  let encrypted = new Uint8Array(0);
+
+  for (let round = 0; round < 64 || encrypted[encrypted.length - 1] > round - 32; round++) {
+    const block = concatBytes(password, hash, userEntry);
+    const repeated = new Uint8Array(block.length * 64);
+    for (let copy = 0; copy < 64; copy++) {
+      repeated.set(block, copy * block.length);
+    }
+
+    encrypted = await encryptBlocks(hash.subarray(0, 16), repeated, hash.subarray(16, 32));
+    const remainder = encrypted.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    hash = await digest(HASH_ALGORITHMS[remainder], encrypted);
+  }
+
+  return hash.subarray(0, 32);
+}
+
+// UTF-8 after normalization, standing in for the SASLprep profile the specification asks for
+function encodePassword(password: string): Uint8Array {
+  return new TextEncoder().encode(password.normalize('NFKC')).subarray(0, MAX_PASSWORD_BYTES);
+}
+
+function padPassword(password: string): Uint8Array {
+  const padded = new Uint8Array(32);
+  const bytes = Uint8Array.from(password.slice(0, 32), char => char.charCodeAt(0));
+  padded.set(bytes);
+  padded.set(PASSWORD_PADDING.subarray(0, 32 - bytes.length), bytes.length);
+  return padded;
+}
+
+// A random IV followed by the data, encrypted in CBC mode with PKCS#7 padding
+async function encryptAes(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  const iv = randomBytes(AES_BLOCK_SIZE);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, key, data);
+  return concatBytes(iv, new Uint8Array(encrypted));
+}
+
+// CBC without padding, for data that is already a whole number of blocks.
+// With the default zero IV a single block is the same as ECB mode.
+async function encryptBlocks(
+  keyBytes: Uint8Array,
+  data: Uint8Array,
+  iv = new Uint8Array(AES_BLOCK_SIZE)
+): Promise<Uint8Array> {
+  const key = await importAesKey(keyBytes);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, key, data);
+  // Web Crypto always pads, adding a whole block at the end
+  return new Uint8Array(encrypted, 0, data.length);
+}
+
+function importAesKey(keyBytes: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', keyBytes, 'AES-CBC', false, ['encrypt']);
+}
+
+async function digest(algorithm: string, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data));
+}
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The AES-128 handler still derives its keys with MD5 and RC4, which Web Crypto doesn't offer
+
+function md5Rounds(hash: Uint8Array, rounds: number): Uint8Array {
+  for (let round = 0; round < rounds; round++) {
+    hash = md5(hash);
+  }
+  return hash;
+}
+
+// Encrypts with the key, then 19 more times with the key XORed with the round number
+function rc4Rounds(key: Uint8Array, data: Uint8Array): Uint8Array {
+  for (let round = 0; round < 20; round++) {
+    data = rc4(key.map(byte => byte ^ round), data);
+  }
+  return data;
+}
+
+function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const state = Uint8Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+
+  const output = new Uint8Array(data.length);
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[k] = data[k] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return output;
+}
+
+function md5(data: Uint8Array): Uint8Array {
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(data.length / 0x20000000), true);
+
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    let [a, b, c, d] = state;
+    for (let i = 0; i < 64; i++) {
+      let mixed: number;
+      let word: number;
+      if (i < 16) {
+        mixed = (b & c) | (~b & d);
+        word = i;
+      } else if (i < 32) {
+        mixed = (d & b) | (~d & c);
+        word = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        mixed = b ^ c ^ d;
+        word = (3 * i + 5) % 16;
+      } else {
+        mixed = c ^ (b | ~d);
+        word = (7 * i) % 16;
+      }
+
+      const shift = MD5_SHIFTS[(i >> 4) * 4 + (i % 4)];
+      const sum = (a + mixed + MD5_CONSTANTS[i] + view.getUint32(offset + word * 4, true)) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    state[0] = (state[0] + a) | 0;
+    state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0;
+    state[3] = (state[3] + d) | 0;
+  }
+
+  const hash = new Uint8Array(16);
+  const hashView = new DataView(hash.buffer);
+  state.forEach((value, index) => hashView.setInt32(index * 4, value, true));
+  return hash;
+}
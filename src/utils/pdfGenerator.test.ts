@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument, PDFName, drawObject, popGraphicsState, pushGraphicsState, scale } from 'pdf-lib';
+import { generatePDF } from './pdfGenerator';
+import type { ConversionOptions, ImageFile } from '../types';
+
+const OPTIONS: ConversionOptions = {
+  pageSize: 'A4',
+  customPageSize: { width: 210, height: 297, unit: 'mm' },
+  orientation: 'portrait',
+  margin: 20,
+  quality: 'high',
+  filename: 'scans',
+  layout: { rows: 1, columns: 1, gutter: 20, fit: 'fit', alignX: 'center', alignY: 'center' },
+  pageText: { header: 'Quarterly report', footer: '', pageNumbers: true, captions: false },
+  background: { mode: 'none', color: '#ffffff' },
+  metadata: { title: '', author: '', subject: '', keywords: '' },
+  bookmarks: true,
+  processing: { mode: 'photo', filter: 'color' },
+  adjustments: { grayscale: false, brightness: 0, contrast: 0, autoLevels: false, binarize: false, threshold: 128 },
+  ocr: false,
+  split: { mode: 'size', imagesPerPart: 10, maxSizeMb: 1 },
+  security: {
+    enabled: false,
+    encryption: 'aes-256',
+    userPassword: '',
+    ownerPassword: '',
+    permissions: { printing: true, copying: true, modifying: true },
+  },
+};
+
+const IMAGE_SIZE = 640;
+
+// Pages that all show one picture. Each page copied on its own takes a copy of the picture
+// along, so the output is several times the size of the file the estimate goes by.
+async function createSharedImagePdf(pageCount: number): Promise<File> {
+  const pdfDoc = await PDFDocument.create();
+  // Noise doesn't compress, so the picture's size is known
+  let seed = 1;
+  const pixels = Uint8Array.from({ length: IMAGE_SIZE * IMAGE_SIZE }, () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed >> 23;
+  });
+  const imageRef = pdfDoc.context.register(pdfDoc.context.stream(pixels, {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: IMAGE_SIZE,
+    Height: IMAGE_SIZE,
+    ColorSpace: 'DeviceGray',
+    BitsPerComponent: 8,
+  }));
+
+  for (let index = 0; index < pageCount; index++) {
+    const page = pdfDoc.addPage([IMAGE_SIZE, IMAGE_SIZE]);
+    const name: PDFName = page.node.newXObject('Image', imageRef);
+    page.pushOperators(pushGraphicsState(), scale(IMAGE_SIZE, IMAGE_SIZE), drawObject(name), popGraphicsState());
+  }
+  return new File([await pdfDoc.save()], 'shared.pdf', { type: 'application/pdf' });
+}
+
+function getPdfPages(file: File, pageCount: number): ImageFile[] {
+  return Array.from({ length: pageCount }, (_, pageIndex) => ({
+    id: pageIndex + 1,
+    file,
+    url: '',
+    name: `shared.pdf page ${pageIndex + 1}`,
+    size: file.size,
+    format: 'pdf',
+    pageIndex,
+  }));
+}
+
+describe('generatePDF', () => {
+  it('keeps every part of a split by size under the limit', async () => {
+    const file = await createSharedImagePdf(3);
+    const { documents, results } = await generatePDF(getPdfPages(file, 3), OPTIONS);
+
+    expect(results.every(({ status }) => status === 'succeeded')).toBe(true);
+    expect(documents.length).toBeGreaterThan(1);
+    let pageCount = 0;
+    for (const bytes of documents) {
+      expect(bytes.byteLength).toBeLessThanOrEqual(OPTIONS.split.maxSizeMb * 1024 * 1024);
+      const part = await PDFDocument.load(bytes);
+      pageCount += part.getPageCount();
+    }
+    expect(pageCount).toBe(3);
+  });
+});
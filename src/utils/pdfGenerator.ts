@@ -1,199 +1,700 @@
-import { PDFDocument, rgb, PageSizes } from 'pdf-lib';
-import type { ImageFile, ConversionOptions, PageSize } from '../types';
+import {
+  PDFDocument,
+  StandardFonts,
+  TextRenderingMode,
+  beginText,
+  clip,
+  concatTransformationMatrix,
+  drawObject,
+  endPath,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+} from 'pdf-lib';
+import type { PDFFont, PDFOperator, PDFPage, PDFRef, RGB } from 'pdf-lib';
+import { compressImage } from './imageCompression';
+import type { CompressedImage, CompressionSettings, GraySamples } from './imageCompression';
+import { decodeImage } from './imageDecoders';
+import { findPageGeometry, scanDocument } from './documentScanner';
+import type { ScanFilter } from './documentScanner';
+import { readImageSize } from './imageInfo';
+import { getPartStarts } from './outputSplit';
+import { encryptPdf } from './pdfEncryption';
+import { getCaptionRect, getImagesPerPage, getPageGridLayout, getVisibleRect, layoutPage } from './pageLayout';
+import type { PlacedImage, Rect } from './pageLayout';
+import { drawCaption, drawPageText, hasPageText } from './pageText';
+import { addOutline } from './pdfOutline';
+import type { OutlineEntry } from './pdfOutline';
+import type { RecognizedWord, TextRecognizer } from './textRecognition';
+import { getDisplayTransform, getTransformedSize, getUncroppedRect } from './imageTransform';
+import type { UnitTransform } from './imageTransform';
+import type {
+  ImageFile,
+  ConversionOptions,
+  GenerationStage,
+  ImageConversionResult,
+  ImageFailureReason,
+  ImageFormat,
+  PageSize,
+  PDFGenerationResult,
+} from '../types';
 
-const PAGE_SIZES: Record<string, PageSize> = {
-  A4: { width: 595, height: 842 },
-  Letter: { width: 612, height: 792 },
-  Legal: { width: 612, height: 1008 },
+const QUALITY_SETTINGS: Record<ConversionOptions['quality'], CompressionSettings> = {
+  high: { jpegQuality: 0.9, maxDpi: 300 },
+  medium: { jpegQuality: 0.7, maxDpi: 200 },
+  low: { jpegQuality: 0.5, maxDpi: 120 },
 };
 
-const QUALITY_SETTINGS = {
-  high: 0.9,
-  medium: 0.7,
-  low: 0.5,
-};
+const BYTES_PER_MB = 1024 * 1024;
+// Allowance for each page's objects on top of its image data when estimating a part's size
+const PAGE_OVERHEAD_BYTES = 2048;
+// Allowance for the operators placing each recognized word in the text layer
+const WORD_OVERHEAD_BYTES = 64;
+// Recognizing an image's text takes several times as long as encoding it, which progress accounts for
+const OCR_WORK = 4;
+
+// A PDF being assembled; a split output has several
+interface OutputDocument {
+  pdfDoc: PDFDocument;
+  font: PDFFont | null;
+  outline: OutlineEntry[];
+  // Indices of the pages copied from imported PDFs
+  importedPages: Set<number>;
+  // Image and page data added so far, compared against the size budget
+  estimatedBytes: number;
+}
+
+// An image encoded for its slot on a page, waiting to be drawn
+interface PreparedImage {
+  image: ImageFile;
+  slot: number;
+  compressed: CompressedImage;
+  // Recognized text, when OCR is on
+  words: RecognizedWord[];
+  target: Rect;
+  clipRect: Rect | null;
+}
+
+class ImageConversionError extends Error {
+  reason: ImageFailureReason;
+
+  constructor(reason: ImageFailureReason, message: string) {
+    super(message);
+    this.name = 'ImageConversionError';
+    this.reason = reason;
+  }
+}
 
 export async function generatePDF(
   images: ImageFile[],
   options: ConversionOptions,
-  onProgress?: (progress: number) => void
-): Promise<Uint8Array> {
-  const pdfDoc = await PDFDocument.create();
-  const pageSize = PAGE_SIZES[options.pageSize];
-  const { width: pageWidth, height: pageHeight } = options.orientation === 'landscape'
-    ? { width: pageSize.height, height: pageSize.width }
-    : pageSize;
-
-  const margin = options.margin;
-  const availableWidth = pageWidth - (margin * 2);
-  const availableHeight = pageHeight - (margin * 2);
-
-  let currentPage = pdfDoc.addPage([pageWidth, pageHeight]);
-  let imagesOnCurrentPage = 0;
-
-  for (let i = 0; i < images.length; i++) {
-    const image = images[i];
-    
-    // Update progress
+  onProgress?: (progress: number, stage: GenerationStage) => void,
+  signal?: AbortSignal
+): Promise<PDFGenerationResult> {
+  const imagesPerPage = getImagesPerPage(getPageGridLayout(options));
+  const partStarts = getPartStarts(images, options.split);
+  const maxPartBytes = options.split.mode === 'size' ? options.split.maxSizeMb * BYTES_PER_MB : Infinity;
+  const documents: Uint8Array[] = [];
+  const results: ImageConversionResult[] = [];
+  // Each imported PDF is parsed once, however many of its pages are used
+  const sourcePdfs = new Map<File, Promise<PDFDocument>>();
+  const { mode: backgroundMode, color: backgroundColor } = options.background;
+  // What shows through transparent parts of an image
+  const colorBehindImages = backgroundMode === 'none' ? '#ffffff' : backgroundColor;
+  const scanDocuments = options.processing.mode === 'document';
+  // Scans no longer match their files. Black and white ones compress far better losslessly.
+  const scannedFormat: ImageFormat = options.processing.filter === 'black-and-white' ? 'png' : 'jpeg';
+  // Downsampling greys the edges of black and white scans, so they're thresholded again
+  // to stay black and white, which embeds at one bit per pixel
+  const rethresholdScans = scanDocuments && options.processing.filter === 'black-and-white';
+  // Scanned images of the page being laid out, made while measuring since the page found
+  // in a photo decides the image's size
+  const scannedImages = new Map<number, ImageBitmap>();
+  // The OCR engine is loaded and started with the first image that needs it. If the conversion is
+  // cancelled, ending the worker generatePDF runs in ends the engine too.
+  let textRecognizer: Promise<TextRecognizer> | null = null;
+  const getImageWork = (image: ImageFile) => (options.ocr && image.format !== 'pdf' ? 1 + OCR_WORK : 1);
+  const totalWork = images.reduce((total, image) => total + getImageWork(image), 0);
+  let doc = await createOutputDocument(options);
+  let nextIndex = 0;
+  let completedWork = 0;
+
+  const recordFailure = (image: ImageFile, error: unknown) => {
+    console.error(`Failed to process image ${image.name}:`, error);
+    // Continue with the next image instead of failing completely
+    results.push({
+      id: image.id,
+      name: image.name,
+      status: 'failed',
+      reason: error instanceof ImageConversionError ? error.reason : 'decode-error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  };
+
+  const reportProgress = (stage: GenerationStage = 'converting', partialWork = 0) => {
     if (onProgress) {
-      onProgress((i / images.length) * 100);
-    }
-
-    try {
-      // Convert image to appropriate format for pdf-lib
-      const imageBytes = await fileToArrayBuffer(image.file);
-      let embeddedImage;
-
-      // Determine image type and embed accordingly
-      if (image.file.type.includes('png')) {
-        embeddedImage = await pdfDoc.embedPng(imageBytes);
-      } else if (image.file.type.includes('jpg') || image.file.type.includes('jpeg')) {
-        embeddedImage = await pdfDoc.embedJpg(imageBytes);
-      } else {
-        // For other formats, convert to canvas and then to JPEG
-        const canvas = await imageToCanvas(image.file);
-        const jpegBytes = canvasToJpeg(canvas, QUALITY_SETTINGS[options.quality]);
-        embeddedImage = await pdfDoc.embedJpg(jpegBytes);
+      onProgress(((completedWork + partialWork) / totalWork) * 100, stage);
+    }
+  };
+
+  // Saves the current part and starts the next. The size budget is only an estimate, so a part
+  // that is saved over the limit keeps as many pages as fit and the rest begin the next part.
+  const finishPart = async () => {
+    if (maxPartBytes === Infinity) {
+      documents.push(await finishOutputDocument(doc, options));
+      doc = await createOutputDocument(options);
+      return;
+    }
+
+    const pageCount = doc.pdfDoc.getPageCount();
+    let keptPages = pageCount;
+    let bytes = await saveLeadingPages(doc, options, keptPages);
+    while (bytes.byteLength > maxPartBytes && keptPages > 1) {
+      keptPages = Math.max(1, Math.min(keptPages - 1, Math.floor((keptPages * maxPartBytes) / bytes.byteLength)));
+      bytes = await saveLeadingPages(doc, options, keptPages);
+    }
+    documents.push(bytes);
+    doc = await takeTrailingPages(doc, options, keptPages);
+  };
+
+  // Moves on to the next part, unless the current one has no pages yet
+  const startNewDocument = async () => {
+    if (doc.pdfDoc.getPageCount() > 0) {
+      await finishPart();
+    }
+  };
+
+  while (nextIndex < images.length) {
+    if (partStarts.has(nextIndex)) {
+      await startNewDocument();
+    }
+
+    // Imported PDF pages are copied as they are, each on its own page
+    if (images[nextIndex].format === 'pdf') {
+      const image = images[nextIndex++];
+      signal?.throwIfAborted();
+      reportProgress();
+      completedWork += getImageWork(image);
+
+      try {
+        const sourcePdf = await loadSourcePdf(sourcePdfs, image.file);
+        // The page's share of its source file stands in for what it adds to the output
+        const pageBytes = image.file.size / sourcePdf.getPageCount() + PAGE_OVERHEAD_BYTES;
+        if (doc.estimatedBytes + pageBytes > maxPartBytes) {
+          await startNewDocument();
+        }
+
+        const [copiedPage] = await doc.pdfDoc.copyPages(sourcePdf, [image.pageIndex ?? 0]);
+        const page = doc.pdfDoc.addPage(copiedPage);
+        const pageIndex = doc.pdfDoc.getPageCount() - 1;
+        doc.importedPages.add(pageIndex);
+        doc.estimatedBytes += pageBytes;
+
+        if (options.bookmarks) {
+          const { x, y } = getVisibleTopLeft(page);
+          doc.outline.push({ title: image.label?.trim() || image.name, pageIndex, left: x, top: y });
+        }
+
+        results.push({ id: image.id, name: image.name, status: 'succeeded' });
+      } catch (error) {
+        recordFailure(image, error);
       }
+      continue;
+    }
 
-      // Calculate image dimensions and position
-      const { width: imgWidth, height: imgHeight } = embeddedImage.scale(1);
-      const { scaledWidth, scaledHeight, x, y } = calculateImageDimensions(
-        imgWidth,
-        imgHeight,
-        availableWidth,
-        availableHeight,
-        options.imagesPerPage,
-        imagesOnCurrentPage,
-        margin,
-        pageWidth,
-        pageHeight
-      );
+    // Measure the images for the next page first, since the page size may depend on them.
+    // An imported PDF page or the start of a new part ends the current page.
+    const pageStart = nextIndex;
+    const pageImages: PlacedImage[] = [];
+    while (
+      pageImages.length < imagesPerPage &&
+      nextIndex < images.length &&
+      images[nextIndex].format !== 'pdf' &&
+      (nextIndex === pageStart || !partStarts.has(nextIndex))
+    ) {
+      const image = images[nextIndex++];
+      signal?.throwIfAborted();
+
+      try {
+        let size: PageSize;
+        if (scanDocuments) {
+          const scanned = await scanOrFail(image, options.processing.filter);
+          scannedImages.set(image.id, scanned);
+          size = { width: scanned.width, height: scanned.height };
+        } else {
+          size = await measureOrFail(image);
+        }
+        pageImages.push({ image, ...getTransformedSize(size.width, size.height, image.transform) });
+      } catch (error) {
+        completedWork += getImageWork(image);
+        recordFailure(image, error);
+      }
+    }
+
+    if (pageImages.length === 0) {
+      continue;
+    }
+
+    const pageLayout = layoutPage(options, pageImages);
+    const pageHeight = pageLayout.height;
+
+    // Encode the page's images before drawing any, so that a page which would push
+    // the current part over its size budget can start the next part instead
+    const preparedImages: PreparedImage[] = [];
+    for (let slot = 0; slot < pageImages.length; slot++) {
+      const { image } = pageImages[slot];
+      signal?.throwIfAborted();
+      reportProgress();
+
+      const scanned = scannedImages.get(image.id);
+      scannedImages.delete(image.id);
+      let source: ImageBitmap | null = scanned ?? null;
+      try {
+        source ??= await decodeOrFail(image);
+        const transform = image.transform;
+        const { placement } = pageLayout.slots[slot];
+
+        // The whole image is drawn enlarged behind the crop, and rotated by the user's transform
+        const box = toPdfRect(placement.rect, pageHeight);
+        const crop = transform?.crop ?? null;
+        const target = getUncroppedRect(box.x, box.y, box.width, box.height, crop);
+        // Cells in 'fill' mode lie inside the image box, so clipping to them also applies the crop
+        const clipRect = placement.clip ? toPdfRect(placement.clip, pageHeight) : crop ? box : null;
+        const quarterTurn = transform?.rotation === 90 || transform?.rotation === 270;
+        const adjustments = image.adjustments ?? options.adjustments;
+
+        // Downsample to the drawn size and re-encode at the chosen quality
+        const compressed = await compressImage(
+          scanned ? null : image.file,
+          scanned ? scannedFormat : image.format,
+          source,
+          quarterTurn ? target.height : target.width,
+          quarterTurn ? target.width : target.height,
+          QUALITY_SETTINGS[options.quality],
+          scanned && rethresholdScans ? { ...adjustments, binarize: true, threshold: 128 } : adjustments,
+          colorBehindImages
+        );
+
+        let words: RecognizedWord[] = [];
+        if (options.ocr) {
+          reportProgress('recognizing-text', 1);
+          textRecognizer ??= import('./textRecognition').then(module => module.createTextRecognizer());
+          words = await recognizeOrSkip(
+            textRecognizer,
+            image,
+            source,
+            (fraction) => reportProgress('recognizing-text', 1 + fraction * OCR_WORK),
+            signal
+          );
+        }
+        preparedImages.push({ image, slot, compressed, words, target, clipRect });
+      } catch (error) {
+        recordFailure(image, error);
+      } finally {
+        source?.close();
+        completedWork += getImageWork(image);
+      }
+    }
+
+    if (preparedImages.length === 0) {
+      continue;
+    }
+
+    const pageBytes = preparedImages.reduce(
+      (total, { compressed, words }) => total + compressed.bytes.byteLength + words.length * WORD_OVERHEAD_BYTES,
+      PAGE_OVERHEAD_BYTES
+    );
+    if (doc.estimatedBytes + pageBytes > maxPartBytes) {
+      await startNewDocument();
+    }
+    doc.estimatedBytes += pageBytes;
+
+    const { pdfDoc, font, outline } = doc;
+    const page = pdfDoc.addPage([pageLayout.width, pageHeight]);
+    const pageIndex = pdfDoc.getPageCount() - 1;
 
-      // Draw the image
-      currentPage.drawImage(embeddedImage, {
-        x,
-        y: pageHeight - y - scaledHeight, // Flip Y coordinate
-        width: scaledWidth,
-        height: scaledHeight,
+    if (backgroundMode === 'page') {
+      page.drawRectangle({
+        x: 0,
+        y: 0,
+        width: pageLayout.width,
+        height: pageHeight,
+        color: toPdfColor(backgroundColor),
       });
+    }
+
+    for (const { image, slot, compressed, words, target, clipRect } of preparedImages) {
+      const { cell, placement } = pageLayout.slots[slot];
 
-      imagesOnCurrentPage++;
+      try {
+        const imageRef = await embedOrFail(pdfDoc, compressed);
 
-      // Check if we need a new page
-      if (imagesOnCurrentPage >= options.imagesPerPage && i < images.length - 1) {
-        currentPage = pdfDoc.addPage([pageWidth, pageHeight]);
-        imagesOnCurrentPage = 0;
+        if (backgroundMode === 'cell') {
+          page.drawRectangle({ ...toPdfRect(cell, pageHeight), color: toPdfColor(backgroundColor) });
+        }
+
+        // Draw the image, applying any EXIF orientation left in the embedded bytes
+        drawTransformedImage(
+          page,
+          imageRef,
+          getDisplayTransform(compressed.orientation, image.transform),
+          target,
+          clipRect
+        );
+        // Recognition ran on the upright decoded image, whatever orientation the embedded bytes have
+        if (font && words.length > 0) {
+          drawTextLayer(page, font, words, getDisplayTransform(1, image.transform), target, clipRect);
+        }
+
+        if (font && options.pageText.captions) {
+          drawCaption(page, font, image.name, getCaptionRect(cell, getVisibleRect(placement)));
+        }
+
+        if (options.bookmarks) {
+          const visible = toPdfRect(getVisibleRect(placement), pageHeight);
+          outline.push({
+            title: image.label?.trim() || image.name,
+            pageIndex,
+            left: visible.x,
+            top: visible.y + visible.height,
+          });
+        }
+
+        results.push({ id: image.id, name: image.name, status: 'succeeded' });
+      } catch (error) {
+        recordFailure(image, error);
       }
-    } catch (error) {
-      console.error(`Failed to process image ${image.name}:`, error);
-      // Continue with the next image instead of failing completely
     }
   }
 
+  signal?.throwIfAborted();
+  // An engine that failed to start was already reported for each image
+  await textRecognizer?.then(recognizer => recognizer.terminate(), () => undefined);
+
+  // A last part left empty by failed images is dropped, but there is always at least one PDF
+  if (doc.pdfDoc.getPageCount() > 0 || documents.length === 0) {
+    await finishPart();
+  }
+  // Pages that didn't fit in the last part make parts of their own
+  while (doc.pdfDoc.getPageCount() > 0) {
+    await finishPart();
+  }
+
   if (onProgress) {
-    onProgress(100);
-  }
-
-  return await pdfDoc.save();
-}
-
-function calculateImageDimensions(
-  imgWidth: number,
-  imgHeight: number,
-  availableWidth: number,
-  availableHeight: number,
-  imagesPerPage: number,
-  imageIndex: number,
-  margin: number,
-  pageWidth: number,
-  pageHeight: number
-): { scaledWidth: number; scaledHeight: number; x: number; y: number } {
-  let scaledWidth: number;
-  let scaledHeight: number;
-  let x: number;
-  let y: number;
-
-  if (imagesPerPage === 1) {
-    // Single image per page - fit to available space
-    const scale = Math.min(availableWidth / imgWidth, availableHeight / imgHeight);
-    scaledWidth = imgWidth * scale;
-    scaledHeight = imgHeight * scale;
-    x = margin + (availableWidth - scaledWidth) / 2;
-    y = margin + (availableHeight - scaledHeight) / 2;
-  } else if (imagesPerPage === 2) {
-    // Two images per page - side by side
-    const imageAreaWidth = availableWidth / 2 - 10; // 10px gap between images
-    const scale = Math.min(imageAreaWidth / imgWidth, availableHeight / imgHeight);
-    scaledWidth = imgWidth * scale;
-    scaledHeight = imgHeight * scale;
-    
-    x = margin + (imageIndex % 2) * (availableWidth / 2) + (imageAreaWidth - scaledWidth) / 2;
-    y = margin + (availableHeight - scaledHeight) / 2;
-  } else if (imagesPerPage === 4) {
-    // Four images per page - 2x2 grid
-    const imageAreaWidth = availableWidth / 2 - 10;
-    const imageAreaHeight = availableHeight / 2 - 10;
-    const scale = Math.min(imageAreaWidth / imgWidth, imageAreaHeight / imgHeight);
-    scaledWidth = imgWidth * scale;
-    scaledHeight = imgHeight * scale;
-    
-    const col = imageIndex % 2;
-    const row = Math.floor(imageIndex / 2) % 2;
-    
-    x = margin + col * (availableWidth / 2) + (imageAreaWidth - scaledWidth) / 2;
-    y = margin + row * (availableHeight / 2) + (imageAreaHeight - scaledHeight) / 2;
-  } else {
-    // Default to single image layout
-    const scale = Math.min(availableWidth / imgWidth, availableHeight / imgHeight);
-    scaledWidth = imgWidth * scale;
-    scaledHeight = imgHeight * scale;
-    x = margin + (availableWidth - scaledWidth) / 2;
-    y = margin + (availableHeight - scaledHeight) / 2;
-  }
-
-  return { scaledWidth, scaledHeight, x, y };
-}
-
-async function fileToArrayBuffer(file: File): Promise<ArrayBuffer> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as ArrayBuffer);
-    reader.onerror = reject;
-    reader.readAsArrayBuffer(file);
+    onProgress(100, 'converting');
+  }
+
+  return { documents, results };
+}
+
+async function createOutputDocument(options: ConversionOptions): Promise<OutputDocument> {
+  const pdfDoc = await PDFDocument.create();
+  return {
+    pdfDoc,
+    font: hasPageText(options) || options.ocr ? await pdfDoc.embedFont(StandardFonts.Helvetica) : null,
+    outline: [],
+    importedPages: new Set(),
+    estimatedBytes: 0,
+  };
+}
+
+async function finishOutputDocument(doc: OutputDocument, options: ConversionOptions): Promise<Uint8Array> {
+  const { pdfDoc, font, outline, importedPages } = doc;
+
+  // Keep the document valid even when no image could be added
+  if (pdfDoc.getPageCount() === 0) {
+    const { width, height } = layoutPage(options, []);
+    pdfDoc.addPage([width, height]);
+  }
+
+  if (font) {
+    drawPageText(pdfDoc, font, options, importedPages);
+  }
+  addOutline(pdfDoc, outline);
+  setMetadata(pdfDoc, options);
+
+  const pdfBytes = await pdfDoc.save();
+  return options.security.enabled ? encryptPdf(pdfBytes, options.security) : pdfBytes;
+}
+
+// The first `pageCount` pages of a part saved as a PDF of their own, leaving the part as it is
+async function saveLeadingPages(doc: OutputDocument, options: ConversionOptions, pageCount: number): Promise<Uint8Array> {
+  const leading = await createOutputDocument(options);
+  await copyPagesInto(leading, doc, 0, pageCount);
+  return finishOutputDocument(leading, options);
+}
+
+// A new part starting with the pages of `doc` from `start` on
+async function takeTrailingPages(doc: OutputDocument, options: ConversionOptions, start: number): Promise<OutputDocument> {
+  const trailing = await createOutputDocument(options);
+  const pageCount = doc.pdfDoc.getPageCount();
+  if (start < pageCount) {
+    await copyPagesInto(trailing, doc, start, pageCount);
+    trailing.estimatedBytes = (doc.estimatedBytes * (pageCount - start)) / pageCount;
+  }
+  return trailing;
+}
+
+// Copies pages `start` to `end` of one part to the end of another, with their bookmarks.
+// Page text isn't drawn until a part is saved, so the copies are still without it.
+async function copyPagesInto(target: OutputDocument, source: OutputDocument, start: number, end: number): Promise<void> {
+  // Images and fonts are only written into a document when it's saved, and the pages need them
+  await source.pdfDoc.flush();
+  const offset = target.pdfDoc.getPageCount() - start;
+  const indices = Array.from({ length: end - start }, (_, index) => start + index);
+  const pages = await target.pdfDoc.copyPages(source.pdfDoc, indices);
+  pages.forEach(page => target.pdfDoc.addPage(page));
+
+  for (const entry of source.outline) {
+    if (entry.pageIndex >= start && entry.pageIndex < end) {
+      target.outline.push({ ...entry, pageIndex: entry.pageIndex + offset });
+    }
+  }
+  source.importedPages.forEach((pageIndex) => {
+    if (pageIndex >= start && pageIndex < end) {
+      target.importedPages.add(pageIndex + offset);
+    }
   });
 }
 
-async function imageToCanvas(file: File): Promise<HTMLCanvasElement> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error('Failed to get canvas context'));
-        return;
-      }
-      
-      canvas.width = img.width;
-      canvas.height = img.height;
-      ctx.drawImage(img, 0, 0);
-      resolve(canvas);
-    };
-    img.onerror = reject;
-    img.src = URL.createObjectURL(file);
+function setMetadata(pdfDoc: PDFDocument, options: ConversionOptions): void {
+  const { title, author, subject, keywords } = options.metadata;
+
+  pdfDoc.setCreator('Image to PDF Converter');
+  if (title.trim()) {
+    pdfDoc.setTitle(title.trim(), { showInWindowTitleBar: true });
+  }
+  if (author.trim()) {
+    pdfDoc.setAuthor(author.trim());
+  }
+  if (subject.trim()) {
+    pdfDoc.setSubject(subject.trim());
+  }
+  const keywordList = keywords.split(',').map(keyword => keyword.trim()).filter(Boolean);
+  if (keywordList.length > 0) {
+    pdfDoc.setKeywords(keywordList);
+  }
+}
+
+// Parses a CSS hex color such as '#1e90ff'
+function toPdfColor(hex: string): RGB {
+  const value = parseInt(hex.slice(1), 16) || 0;
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
+
+// The corner of an imported page that viewers show at the top-left, in PDF coordinates.
+// Its crop box needn't start at the origin, and the page may be turned for display.
+function getVisibleTopLeft(page: PDFPage): { x: number; y: number } {
+  const { x, y, width, height } = page.getCropBox();
+  switch (((page.getRotation().angle % 360) + 360) % 360) {
+    case 90:
+      return { x, y };
+    case 180:
+      return { x: x + width, y };
+    case 270:
+      return { x: x + width, y: y + height };
+    default:
+      return { x, y: y + height };
+  }
+}
+
+// PDF coordinates start at the bottom-left corner
+function toPdfRect(rect: Rect, pageHeight: number): Rect {
+  return { ...rect, y: pageHeight - rect.y - rect.height };
+}
+
+async function loadSourcePdf(cache: Map<File, Promise<PDFDocument>>, file: File): Promise<PDFDocument> {
+  let sourcePdf = cache.get(file);
+  if (!sourcePdf) {
+    sourcePdf = file.arrayBuffer().then(bytes => PDFDocument.load(bytes));
+    cache.set(file, sourcePdf);
+  }
+
+  try {
+    return await sourcePdf;
+  } catch (error) {
+    // Encrypted PDFs can't be copied without their password
+    throw new ImageConversionError('unreadable-pdf', error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function measureOrFail(image: ImageFile): Promise<PageSize> {
+  try {
+    return await readImageSize(image.file, image.format, image.pageIndex);
+  } catch {
+    throw new ImageConversionError(
+      image.format === 'png' ? 'corrupt-png' : 'decode-error',
+      'The image data could not be decoded'
+    );
+  }
+}
+
+async function decodeOrFail(image: ImageFile): Promise<ImageBitmap> {
+  try {
+    return await decodeImage(image.file, image.format, image.pageIndex);
+  } catch {
+    throw new ImageConversionError(
+      image.format === 'png' ? 'corrupt-png' : 'decode-error',
+      'The image data could not be decoded'
+    );
+  }
+}
+
+async function scanOrFail(image: ImageFile, filter: ScanFilter): Promise<ImageBitmap> {
+  const source = await decodeOrFail(image);
+  try {
+    // Found by the app in the background, unless the PDF is made before it got to this image
+    const geometry = image.pageGeometry ?? findPageGeometry(source, source.width, source.height);
+    return scanDocument(source, source.width, source.height, filter, geometry).transferToImageBitmap();
+  } finally {
+    source.close();
+  }
+}
+
+// Text that can't be recognized leaves the image without a text layer rather than failing it
+async function recognizeOrSkip(
+  textRecognizer: Promise<TextRecognizer>,
+  image: ImageFile,
+  source: ImageBitmap,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<RecognizedWord[]> {
+  try {
+    return await (await textRecognizer).recognize(source, onProgress, signal);
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.error(`Failed to recognize text in ${image.name}:`, error);
+    return [];
+  }
+}
+
+async function embedOrFail(pdfDoc: PDFDocument, image: CompressedImage): Promise<PDFRef> {
+  try {
+    if (image.format === 'gray' && image.samples) {
+      return embedGraySamples(pdfDoc, image.bytes, image.samples);
+    }
+    const embedded = image.format === 'png'
+      ? await pdfDoc.embedPng(image.bytes)
+      : await pdfDoc.embedJpg(image.bytes);
+    return embedded.ref;
+  } catch (error) {
+    throw new ImageConversionError(
+      image.format === 'png' ? 'corrupt-png' : 'decode-error',
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+// pdf-lib turns every PNG into RGB, so single-channel images are written as image objects directly
+function embedGraySamples(pdfDoc: PDFDocument, bytes: ArrayBuffer, samples: GraySamples): PDFRef {
+  const stream = pdfDoc.context.stream(new Uint8Array(bytes), {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: samples.width,
+    Height: samples.height,
+    ColorSpace: 'DeviceGray',
+    BitsPerComponent: samples.bitsPerComponent,
+    Filter: 'FlateDecode',
   });
+  return pdfDoc.context.register(stream);
 }
 
-function canvasToJpeg(canvas: HTMLCanvasElement, quality: number): ArrayBuffer {
-  const dataUrl = canvas.toDataURL('image/jpeg', quality);
-  const base64 = dataUrl.split(',')[1];
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+function drawTransformedImage(
+  page: PDFPage,
+  imageRef: PDFRef,
+  displayTransform: UnitTransform,
+  target: Rect,
+  clipRect: Rect | null
+): void {
+  const [a, b, c, d, e, f] = displayTransform;
+  const xObjectKey = page.node.newXObject('Image', imageRef);
+  const operators: PDFOperator[] = [pushGraphicsState()];
+
+  if (clipRect) {
+    operators.push(
+      rectangle(clipRect.x, clipRect.y, clipRect.width, clipRect.height),
+      clip(),
+      endPath()
+    );
   }
-  
-  return bytes.buffer;
-}
\ No newline at end of file
+
+  operators.push(
+    concatTransformationMatrix(
+      target.width * a,
+      target.height * b,
+      target.width * c,
+      target.height * d,
+      target.x + target.width * e,
+      target.y + target.height * f
+    ),
+    drawObject(xObjectKey),
+    popGraphicsState()
+  );
+  page.pushOperators(...operators);
+}
+
+// Lays the words over the image as invisible text, which viewers still let you search and select.
+// Each word is stretched to the box it was found in.
+function drawTextLayer(
+  page: PDFPage,
+  font: PDFFont,
+  words: RecognizedWord[],
+  displayTransform: UnitTransform,
+  target: Rect,
+  clipRect: Rect | null
+): void {
+  const [a, b, c, d, e, f] = displayTransform;
+  // Maps the image's unit square onto the page, as drawTransformedImage does
+  const matrix = [
+    target.width * a,
+    target.height * b,
+    target.width * c,
+    target.height * d,
+    target.x + target.width * e,
+    target.y + target.height * f,
+  ] as const;
+  const fontKey = page.node.newFontDictionary(font.name, font.ref);
+  const characters = new Set(font.getCharacterSet());
+  const operators: PDFOperator[] = [
+    pushGraphicsState(),
+    concatTransformationMatrix(...matrix),
+    beginText(),
+    setFontAndSize(fontKey, 1),
+    setTextRenderingMode(TextRenderingMode.Invisible),
+  ];
+
+  for (const { text, box } of words) {
+    // The standard font can't encode every character OCR may find
+    const encodable = Array.from(text).filter(char => characters.has(char.codePointAt(0) ?? 0)).join('');
+    const textWidth = encodable ? font.widthOfTextAtSize(encodable, 1) : 0;
+    // Image space has its origin at the bottom left
+    const left = box.x;
+    const bottom = 1 - box.y - box.height;
+
+    // Words cropped out of view, or outside a filled cell, aren't on the page
+    const centerX = left + box.width / 2;
+    const centerY = bottom + box.height / 2;
+    const pageX = matrix[0] * centerX + matrix[2] * centerY + matrix[4];
+    const pageY = matrix[1] * centerX + matrix[3] * centerY + matrix[5];
+    const visible = !clipRect || (
+      pageX >= clipRect.x && pageX <= clipRect.x + clipRect.width &&
+      pageY >= clipRect.y && pageY <= clipRect.y + clipRect.height
+    );
+
+    if (textWidth > 0 && visible) {
+      operators.push(
+        setTextMatrix(box.width / textWidth, 0, 0, box.height, left, bottom),
+        showText(font.encodeText(encodable))
+      );
+    }
+  }
+
+  operators.push(endText(), popGraphicsState());
+  page.pushOperators(...operators);
+}
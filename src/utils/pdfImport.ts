@@ -0,0 +1,74 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { PageSize } from '../types';
+
+// Longest side of the rendered page thumbnails
+const THUMBNAIL_MAX_SIZE = 1024;
+const THUMBNAIL_JPEG_QUALITY = 0.85;
+
+// pdf.js is only needed once a PDF is added, so it is loaded on demand
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+// Renders every page of a PDF for display, returning one image URL per page
+export async function renderPdfPages(file: Blob): Promise<string[]> {
+  const pdf = await openPdf(file);
+  const urls: string[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: THUMBNAIL_MAX_SIZE / Math.max(width, height) });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(viewport.width));
+      canvas.height = Math.max(1, Math.round(viewport.height));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Failed to get canvas context');
+      }
+
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      page.cleanup();
+
+      const blob = await new Promise<Blob | null>(resolve =>
+        canvas.toBlob(resolve, 'image/jpeg', THUMBNAIL_JPEG_QUALITY)
+      );
+      if (!blob) {
+        throw new Error(`Page ${pageNumber} could not be rendered`);
+      }
+      urls.push(URL.createObjectURL(blob));
+    }
+    return urls;
+  } catch (error) {
+    urls.forEach(url => URL.revokeObjectURL(url));
+    throw error;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Size of each page in points, with the page's own rotation applied
+export async function readPdfPageSizes(file: Blob): Promise<PageSize[]> {
+  const pdf = await openPdf(file);
+
+  try {
+    const sizes: PageSize[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const { width, height } = (await pdf.getPage(pageNumber)).getViewport({ scale: 1 });
+      sizes.push({ width, height });
+    }
+    return sizes;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+async function openPdf(file: Blob): Promise<PDFDocumentProxy> {
+  pdfjsPromise ??= import('pdfjs-dist').then((pdfjs) => {
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+    return pdfjs;
+  });
+  const pdfjs = await pdfjsPromise;
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+}
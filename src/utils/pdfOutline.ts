@@ -0,0 +1,47 @@
+import { PDFHexString, PDFName, PDFNull } from 'pdf-lib';
+import type { PDFDocument, PDFRef } from 'pdf-lib';
+
+export interface OutlineEntry {
+  title: string;
+  pageIndex: number;
+  // Point to scroll to, in PDF coordinates
+  left: number;
+  top: number;
+}
+
+// pdf-lib has no outline API, so the bookmark tree is built from raw PDF objects
+export function addOutline(pdfDoc: PDFDocument, entries: OutlineEntry[]): void {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const context = pdfDoc.context;
+  const outlineRef = context.nextRef();
+  const itemRefs: PDFRef[] = entries.map(() => context.nextRef());
+
+  entries.forEach((entry, index) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(entry.title),
+      Parent: outlineRef,
+      Dest: [pdfDoc.getPage(entry.pageIndex).ref, 'XYZ', entry.left, entry.top, PDFNull],
+    });
+    if (index > 0) {
+      item.set(PDFName.of('Prev'), itemRefs[index - 1]);
+    }
+    if (index < entries.length - 1) {
+      item.set(PDFName.of('Next'), itemRefs[index + 1]);
+    }
+    context.assign(itemRefs[index], item);
+  });
+
+  context.assign(outlineRef, context.obj({
+    Type: 'Outlines',
+    First: itemRefs[0],
+    Last: itemRefs[itemRefs.length - 1],
+    Count: entries.length,
+  }));
+
+  pdfDoc.catalog.set(PDFName.of('Outlines'), outlineRef);
+  // Open the bookmarks panel when the document is opened
+  pdfDoc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
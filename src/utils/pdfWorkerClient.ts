@@ -0,0 +1,66 @@
+import type {
+  ConversionOptions,
+  GenerationStage,
+  ImageFile,
+  PDFGenerationResult,
+  PdfWorkerRequest,
+  PdfWorkerResponse,
+} from '../types';
+
+// Runs generatePDF in a dedicated worker so the page stays responsive.
+// Rejects with an AbortError when the signal aborts before the PDF is ready.
+export function generatePDFInWorker(
+  images: ImageFile[],
+  options: ConversionOptions,
+  onProgress?: (progress: number, stage: GenerationStage) => void,
+  signal?: AbortSignal
+): Promise<PDFGenerationResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/pdfWorker.ts', import.meta.url), { type: 'module' });
+
+    const send = (message: PdfWorkerRequest) => worker.postMessage(message);
+    const handleAbort = () => send({ type: 'cancel' });
+    const finish = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<PdfWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress, message.stage);
+          break;
+        case 'done':
+          finish();
+          resolve(message.result);
+          break;
+        case 'cancelled':
+          finish();
+          reject(createAbortError());
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'PDF worker failed'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    send({ type: 'generate', images, options });
+  });
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('PDF generation was cancelled', 'AbortError');
+}
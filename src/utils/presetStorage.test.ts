@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { applyPreset, parsePresets } from './presetStorage';
+import type { ConversionOptions } from '../types';
+
+const OPTIONS: ConversionOptions = {
+  pageSize: 'A4',
+  customPageSize: { width: 210, height: 297, unit: 'mm' },
+  orientation: 'portrait',
+  margin: 20,
+  quality: 'high',
+  filename: 'scans',
+  layout: { rows: 1, columns: 1, gutter: 20, fit: 'fit', alignX: 'center', alignY: 'center' },
+  pageText: { header: '', footer: '', pageNumbers: false, captions: false },
+  background: { mode: 'none', color: '#ffffff' },
+  metadata: { title: '', author: '', subject: '', keywords: '' },
+  bookmarks: false,
+  processing: { mode: 'photo', filter: 'color' },
+  adjustments: { grayscale: false, brightness: 0, contrast: 0, autoLevels: false, binarize: false, threshold: 128 },
+  ocr: false,
+  split: { mode: 'none', imagesPerPart: 10, maxSizeMb: 10 },
+  security: {
+    enabled: false,
+    encryption: 'aes-256',
+    userPassword: '',
+    ownerPassword: '',
+    permissions: { printing: true, copying: true, modifying: true },
+  },
+};
+
+function parseOptions(options: unknown): Partial<ConversionOptions> {
+  const [preset] = parsePresets(JSON.stringify({ version: 1, presets: [{ name: 'Imported', options }] }), OPTIONS);
+  return preset.options;
+}
+
+describe('parsePresets', () => {
+  it('keeps settings that fit the current options', () => {
+    expect(parseOptions({ pageSize: 'Letter', quality: 'low', layout: { rows: 2, fit: 'fill' } })).toEqual({
+      pageSize: 'Letter',
+      quality: 'low',
+      layout: { rows: 2, fit: 'fill' },
+    });
+  });
+
+  it('drops values outside a setting\'s choices', () => {
+    expect(parseOptions({ pageSize: 'A6', quality: 'ultra', split: { mode: 'pages', imagesPerPart: 5 } })).toEqual({
+      split: { imagesPerPart: 5 },
+    });
+  });
+
+  it('drops mistyped fields of a group and groups left empty', () => {
+    expect(parseOptions({
+      layout: {},
+      margin: null,
+      customPageSize: { width: '210', height: 200, unit: 'cm' },
+      security: { permissions: { printing: 'yes', copying: false } },
+    })).toEqual({
+      customPageSize: { height: 200 },
+      // Passwords are never kept in presets
+      security: { userPassword: '', ownerPassword: '', permissions: { copying: false } },
+    });
+  });
+
+  it('drops numbers outside the limits of the settings form', () => {
+    expect(parseOptions({
+      margin: -5,
+      customPageSize: { width: 0, height: 100 },
+      layout: { rows: 500, columns: 2.5, gutter: 10 },
+      split: { imagesPerPart: 0, maxSizeMb: 0 },
+      adjustments: { brightness: 150, threshold: 200 },
+    })).toEqual({
+      customPageSize: { height: 100 },
+      layout: { gutter: 10 },
+      adjustments: { threshold: 200 },
+    });
+  });
+});
+
+describe('applyPreset', () => {
+  it('keeps the fields a preset\'s groups leave out', () => {
+    const applied = applyPreset({ id: 'preset', name: 'Grid', options: parseOptions({ layout: { rows: 3 } }) }, OPTIONS);
+    expect(applied.layout).toEqual({ ...OPTIONS.layout, rows: 3 });
+  });
+
+  it('only turns on password protection once passwords have been typed', () => {
+    const preset = { id: 'preset', name: 'Protected', options: parseOptions({ security: { enabled: true } }) };
+    expect(applyPreset(preset, OPTIONS).security.enabled).toBe(false);
+
+    const typed = { ...OPTIONS, security: { ...OPTIONS.security, userPassword: 'open sesame' } };
+    expect(applyPreset(preset, typed).security).toMatchObject({ enabled: true, userPassword: 'open sesame' });
+  });
+});
@@ -0,0 +1,165 @@
+import { isRecord, mergeOptions } from './conversionOptions';
+import { MAX_GRID_SIZE } from './pageLayout';
+import { hasPasswords, withoutPasswords } from './securityOptions';
+import type { ConversionOptions, ConversionPreset } from '../types';
+
+const STORAGE_KEY = 'pdfconvrter-presets';
+// Written into exported files so the format can change later
+const EXPORT_VERSION = 1;
+
+// Settings that only take certain values, by their path in the options
+const ALLOWED_VALUES: Record<string, readonly unknown[]> = {
+  pageSize: ['A3', 'A4', 'A5', 'B5', 'Letter', 'Legal', 'Tabloid', 'custom', 'fit-image'] satisfies ConversionOptions['pageSize'][],
+  'customPageSize.unit': ['mm', 'in'] satisfies ConversionOptions['customPageSize']['unit'][],
+  orientation: ['portrait', 'landscape', 'auto'] satisfies ConversionOptions['orientation'][],
+  quality: ['high', 'medium', 'low'] satisfies ConversionOptions['quality'][],
+  'layout.fit': ['fit', 'fill'] satisfies ConversionOptions['layout']['fit'][],
+  'layout.alignX': ['left', 'center', 'right'] satisfies ConversionOptions['layout']['alignX'][],
+  'layout.alignY': ['top', 'center', 'bottom'] satisfies ConversionOptions['layout']['alignY'][],
+  'background.mode': ['none', 'page', 'cell'] satisfies ConversionOptions['background']['mode'][],
+  'processing.mode': ['photo', 'document'] satisfies ConversionOptions['processing']['mode'][],
+  'processing.filter': ['color', 'grayscale', 'black-and-white'] satisfies ConversionOptions['processing']['filter'][],
+  'split.mode': ['none', 'count', 'size', 'groups'] satisfies ConversionOptions['split']['mode'][],
+  'security.encryption': ['aes-256', 'aes-128'] satisfies ConversionOptions['security']['encryption'][],
+};
+
+// Limits of numeric settings, as the settings form enforces them
+const NUMBER_RANGES: Record<string, { min: number; max: number; integer?: boolean }> = {
+  margin: { min: 0, max: 50 },
+  'customPageSize.width': { min: 1, max: Infinity },
+  'customPageSize.height': { min: 1, max: Infinity },
+  'layout.rows': { min: 1, max: MAX_GRID_SIZE, integer: true },
+  'layout.columns': { min: 1, max: MAX_GRID_SIZE, integer: true },
+  'layout.gutter': { min: 0, max: 40 },
+  'adjustments.brightness': { min: -100, max: 100 },
+  'adjustments.contrast': { min: -100, max: 100 },
+  'adjustments.threshold': { min: 0, max: 255 },
+  'split.imagesPerPart': { min: 1, max: Infinity, integer: true },
+  'split.maxSizeMb': { min: 1, max: Infinity },
+};
+
+export interface PresetLibrary {
+  presets: ConversionPreset[];
+  // Applied when the app opens without a previous session to restore
+  defaultId: string | null;
+}
+
+export function loadPresets(): PresetLibrary {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const library = stored ? (JSON.parse(stored) as Partial<PresetLibrary>) : null;
+    if (library && Array.isArray(library.presets)) {
+      return { presets: library.presets, defaultId: library.defaultId ?? null };
+    }
+  } catch (error) {
+    console.error('Failed to read the saved presets:', error);
+  }
+  return { presets: [], defaultId: null };
+}
+
+export function savePresets(library: PresetLibrary): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+  } catch (error) {
+    console.error('Failed to save the presets:', error);
+  }
+}
+
+export function getDefaultPreset(): ConversionPreset | null {
+  const { presets, defaultId } = loadPresets();
+  return presets.find(preset => preset.id === defaultId) ?? null;
+}
+
+export function createPreset(name: string, options: Partial<ConversionOptions>): ConversionPreset {
+  return { id: crypto.randomUUID(), name, options: withoutPasswords(options) };
+}
+
+// The current options with the preset's settings on top. Settings the preset doesn't have
+// and the passwords typed in this session are kept. Presets don't hold passwords, so one
+// that turns on protection before any are typed leaves it off.
+export function applyPreset(preset: ConversionPreset, options: ConversionOptions): ConversionOptions {
+  const applied = mergeOptions(options, preset.options);
+  return {
+    ...applied,
+    security: {
+      ...applied.security,
+      enabled: applied.security.enabled && hasPasswords(options.security),
+      userPassword: options.security.userPassword,
+      ownerPassword: options.security.ownerPassword,
+    },
+  };
+}
+
+// Whether applying the preset leaves off the protection it would turn on, for lack of passwords
+export function isProtectionDropped(preset: ConversionPreset, options: ConversionOptions): boolean {
+  return preset.options.security?.enabled === true && !hasPasswords(options.security);
+}
+
+export function exportPresets(presets: ConversionPreset[]): string {
+  return JSON.stringify({
+    version: EXPORT_VERSION,
+    presets: presets.map(({ name, options }) => ({ name, options })),
+  }, null, 2);
+}
+
+// Reads a file written by exportPresets. Settings this version doesn't know, or whose
+// value doesn't fit the current options, are dropped, down to each field of a group.
+export function parsePresets(json: string, reference: ConversionOptions): ConversionPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const entries = isRecord(data) && Array.isArray(data.presets) ? data.presets : [];
+  const presets = entries.flatMap((entry: unknown) => {
+    if (!isRecord(entry) || typeof entry.name !== 'string' || !entry.name.trim() || !isRecord(entry.options)) {
+      return [];
+    }
+
+    const options = pickValidSettings(entry.options, reference, '');
+    return [createPreset(entry.name.trim(), options as Partial<ConversionOptions>)];
+  });
+
+  if (presets.length === 0) {
+    throw new Error('The file does not contain any presets.');
+  }
+  return presets;
+}
+
+function pickValidSettings(
+  settings: Record<string, unknown>,
+  reference: object,
+  path: string
+): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const [key, expected] of Object.entries(reference)) {
+    const value = settings[key];
+    const settingPath = path ? `${path}.${key}` : key;
+
+    if (isRecord(expected)) {
+      const group = isRecord(value) ? pickValidSettings(value, expected, settingPath) : {};
+      if (Object.keys(group).length > 0) {
+        picked[key] = group;
+      }
+    } else if (isValidSetting(value, expected, settingPath)) {
+      picked[key] = value;
+    }
+  }
+  return picked;
+}
+
+function isValidSetting(value: unknown, expected: unknown, path: string): boolean {
+  const allowed = ALLOWED_VALUES[path];
+  if (allowed) {
+    return allowed.includes(value);
+  }
+  if (typeof expected === 'number') {
+    const range = NUMBER_RANGES[path];
+    return typeof value === 'number' && Number.isFinite(value) && (!range || (
+      value >= range.min && value <= range.max && (!range.integer || Number.isInteger(value))
+    ));
+  }
+  return typeof value === typeof expected;
+}
@@ -0,0 +1,57 @@
+import { findPageGeometry, scanDocument } from './documentScanner';
+import type { ScanFilter } from './documentScanner';
+import { loadImage } from './imageCompression';
+import type { PageGeometry } from '../types';
+
+// Small scans kept for images scrolled back into view
+const MAX_SCAN_PREVIEWS = 200;
+
+// Small scans by size, filter and picture URL, oldest first
+const scanPreviews = new Map<string, Promise<string>>();
+// Page geometry found for each image URL, kept for previews asking before it's stored on the image
+const pageGeometries = new Map<string, Promise<PageGeometry>>();
+
+// Where document mode finds the page in the image at `url`, unless it's been stored on the
+// image already. It's found once however many previews ask for it.
+export function getPageGeometry(url: string, stored: PageGeometry | undefined): Promise<PageGeometry> {
+  if (stored) {
+    return Promise.resolve(stored);
+  }
+
+  let geometry = pageGeometries.get(url);
+  if (!geometry) {
+    geometry = loadImage(url).then(source => findPageGeometry(source, source.naturalWidth, source.naturalHeight));
+    geometry.catch(() => pageGeometries.delete(url));
+    pageGeometries.set(url, geometry);
+  }
+  return geometry;
+}
+
+// Object URL of a picture of the image scanned as document mode does, at most `maxSize` pixels
+// on its longest side. Results are shared by the image grid, the page preview and the editor.
+export function getScanPreview(
+  url: string,
+  filter: ScanFilter,
+  geometry: PageGeometry,
+  maxSize: number
+): Promise<string> {
+  const key = `${maxSize} ${filter} ${url}`;
+  let preview = scanPreviews.get(key);
+  if (preview) {
+    return preview;
+  }
+
+  preview = loadImage(url).then(async (image) => {
+    const scanned = scanDocument(image, image.naturalWidth, image.naturalHeight, filter, geometry, maxSize);
+    return URL.createObjectURL(await scanned.convertToBlob({ type: 'image/webp' }));
+  });
+  preview.catch(() => scanPreviews.delete(key));
+  scanPreviews.set(key, preview);
+
+  if (scanPreviews.size > MAX_SCAN_PREVIEWS) {
+    const [oldestKey, oldest] = scanPreviews.entries().next().value as [string, Promise<string>];
+    scanPreviews.delete(oldestKey);
+    oldest.then(oldestUrl => URL.revokeObjectURL(oldestUrl), () => undefined);
+  }
+  return preview;
+}
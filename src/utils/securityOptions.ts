@@ -0,0 +1,28 @@
+import type { ConversionOptions, PdfSecurity } from '../types';
+
+export const PASSWORDS_NOT_SAVED_MESSAGE = 'Password protection was turned off because passwords are not saved.';
+
+// Why the passwords can't be used with the chosen encryption, if they can't
+export function getPasswordError(security: PdfSecurity): string | null {
+  if (!security.enabled || security.encryption !== 'aes-128') {
+    return null;
+  }
+  // AES-128 passwords are single-byte encoded, so other characters can't be typed back in readers
+  const password = security.userPassword + security.ownerPassword;
+  return [...password].some(char => char.charCodeAt(0) > 0xff)
+    ? 'AES-128 passwords can only use Latin characters. Choose AES-256 for other characters.'
+    : null;
+}
+
+// Passwords are never written to storage or shared files
+export function withoutPasswords<T extends Partial<ConversionOptions>>(options: T): T {
+  return options.security
+    ? { ...options, security: { ...options.security, userPassword: '', ownerPassword: '' } }
+    : options;
+}
+
+// Protection is only turned on by saved settings once passwords have been typed in this session,
+// so a PDF isn't encrypted with empty ones without the user noticing
+export function hasPasswords(security: PdfSecurity): boolean {
+  return security.userPassword !== '' || security.ownerPassword !== '';
+}
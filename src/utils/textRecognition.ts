@@ -0,0 +1,140 @@
+import { OEM, createWorker } from 'tesseract.js';
+import type { Page } from 'tesseract.js';
+// The OCR engine and its English language data are bundled with the app, so nothing is downloaded
+import engineWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import engineCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import type { Rect } from './pageLayout';
+
+// Longest side images are recognized at; more pixels slow recognition down without improving it
+const MAX_RECOGNITION_SIZE = 4000;
+// Words recognized with less confidence than this, out of 100, are more often specks than text
+const MIN_WORD_CONFIDENCE = 30;
+
+export interface RecognizedWord {
+  text: string;
+  // Position in the image, as fractions of its width and height from the top-left corner
+  box: Rect;
+}
+
+export interface TextRecognizer {
+  // Reports how much of the image has been read, from 0 to 1
+  recognize: (
+    image: ImageBitmap,
+    onProgress: (fraction: number) => void,
+    signal?: AbortSignal
+  ) => Promise<RecognizedWord[]>;
+  terminate: () => Promise<void>;
+}
+
+// Starts the OCR engine in a worker of its own, which takes a few seconds
+export async function createTextRecognizer(): Promise<TextRecognizer> {
+  let reportProgress: ((fraction: number) => void) | null = null;
+
+  const engine = await createWorker('eng', OEM.LSTM_ONLY, {
+    // Paths aren't resolved against the page inside a worker, so they're made absolute here
+    workerPath: toAbsoluteUrl(engineWorkerUrl),
+    corePath: toAbsoluteUrl(engineCoreUrl),
+    langPath: toAbsoluteUrl(englishDataUrl.slice(0, englishDataUrl.lastIndexOf('/'))),
+    workerBlobURL: false,
+    cacheMethod: 'none',
+    logger: (message) => {
+      if (message.status === 'recognizing text') {
+        reportProgress?.(message.progress);
+      }
+    },
+  });
+
+  return {
+    recognize: async (image, onProgress, signal) => {
+      reportProgress = onProgress;
+      const abort = whenAborted(signal);
+      try {
+        const canvas = toRecognitionCanvas(image);
+        // The engine can't stop a page part way through, so a cancelled conversion stops waiting for it
+        const { data } = await Promise.race([
+          engine.recognize(canvas, {}, { blocks: true }),
+          abort.promise,
+        ]);
+        return getWords(data, canvas.width, canvas.height);
+      } finally {
+        reportProgress = null;
+        // The signal lasts the whole conversion, so each image's listener is removed once it's read
+        abort.stopListening();
+      }
+    },
+    terminate: async () => {
+      await engine.terminate();
+    },
+  };
+}
+
+function toRecognitionCanvas(image: ImageBitmap): OffscreenCanvas {
+  const scale = Math.min(1, MAX_RECOGNITION_SIZE / Math.max(image.width, image.height));
+  const canvas = new OffscreenCanvas(
+    Math.max(1, Math.round(image.width * scale)),
+    Math.max(1, Math.round(image.height * scale))
+  );
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  // Transparent areas are read as black otherwise, hiding dark text on them
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+function getWords(page: Page, width: number, height: number): RecognizedWord[] {
+  const words: RecognizedWord[] = [];
+
+  for (const block of page.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          const text = word.text.trim();
+          if (!text || word.confidence < MIN_WORD_CONFIDENCE) {
+            continue;
+          }
+          const { x0, y0, x1, y1 } = word.bbox;
+          words.push({
+            text,
+            box: { x: x0 / width, y: y0 / height, width: (x1 - x0) / width, height: (y1 - y0) / height },
+          });
+        }
+      }
+    }
+  }
+
+  return words;
+}
+
+function whenAborted(signal?: AbortSignal): { promise: Promise<never>; stopListening: () => void } {
+  let onAbort: (() => void) | null = null;
+  const promise = new Promise<never>((_, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    onAbort = () => reject(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+  // Handled here too, in case preparing the image fails before the race starts
+  promise.catch(() => undefined);
+
+  return {
+    promise,
+    stopListening: () => {
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    },
+  };
+}
+
+function toAbsoluteUrl(url: string): string {
+  return new URL(url, self.location.href).href;
+}
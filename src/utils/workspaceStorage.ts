@@ -0,0 +1,203 @@
+import { withoutPasswords } from './securityOptions';
+import type { ConversionOptions, ImageFile, ImageFormat } from '../types';
+
+const DB_NAME = 'pdfconvrter-workspace';
+const DB_VERSION = 1;
+const FILES_STORE = 'files';
+const PREVIEWS_STORE = 'previews';
+const IMAGES_STORE = 'images';
+const SETTINGS_STORE = 'settings';
+const OPTIONS_KEY = 'options';
+const IMAGE_STORES = [FILES_STORE, PREVIEWS_STORE, IMAGES_STORE];
+
+// Formats displayed from an image rendered when they were added rather than from the file itself
+const RENDERED_PREVIEW_FORMATS: ImageFormat[] = ['heic', 'tiff', 'pdf'];
+
+type ImageDetails = Omit<ImageFile, 'file' | 'url' | 'thumbnailUrl'>;
+
+// An image's settings and position; its file and preview are kept in their own stores
+interface StoredImage {
+  id: number;
+  fileKey: string;
+  position: number;
+  details: ImageDetails;
+}
+
+export interface Workspace {
+  images: ImageFile[];
+  options: ConversionOptions | null;
+}
+
+// The pages of a PDF or TIFF share one File, which is stored once under its key
+const fileKeys = new WeakMap<File, string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Saves run one after another, so that an older save can't finish last
+let saveQueue: Promise<void> = Promise.resolve();
+
+// The images and settings saved by the last session, with new object URLs for the images
+export async function loadWorkspace(): Promise<Workspace> {
+  const db = await openDatabase();
+  const transaction = db.transaction([...IMAGE_STORES, SETTINGS_STORE], 'readonly');
+  const [records, files, previews, options] = await Promise.all([
+    request<StoredImage[]>(transaction.objectStore(IMAGES_STORE).getAll()),
+    readEntries<string, File>(transaction.objectStore(FILES_STORE)),
+    readEntries<number, Blob>(transaction.objectStore(PREVIEWS_STORE)),
+    request<ConversionOptions | undefined>(transaction.objectStore(SETTINGS_STORE).get(OPTIONS_KEY)),
+  ]);
+
+  const images = records
+    .sort((a, b) => a.position - b.position)
+    .flatMap(({ fileKey, details }) => {
+      const file = files.get(fileKey);
+      if (!file) {
+        return [];
+      }
+      fileKeys.set(file, fileKey);
+      return [{ ...details, file, url: URL.createObjectURL(previews.get(details.id) ?? file) }];
+    });
+
+  return { images, options: options ?? null };
+}
+
+export function saveWorkspace(images: ImageFile[], options: ConversionOptions): Promise<void> {
+  return enqueue(() => writeWorkspace(images, options));
+}
+
+// Removes the saved images, keeping the settings
+export function clearWorkspace(): Promise<void> {
+  return enqueue(async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction(IMAGE_STORES, 'readwrite');
+    IMAGE_STORES.forEach(store => transaction.objectStore(store).clear());
+    await transactionDone(transaction);
+  });
+}
+
+// Lets the default preset apply on the next start instead of the last session's settings
+export function clearSavedOptions(): Promise<void> {
+  return enqueue(async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).delete(OPTIONS_KEY);
+    await transactionDone(transaction);
+  });
+}
+
+function enqueue(task: () => Promise<void>): Promise<void> {
+  const result = saveQueue.then(task);
+  saveQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function writeWorkspace(images: ImageFile[], options: ConversionOptions): Promise<void> {
+  const db = await openDatabase();
+  const readTransaction = db.transaction([FILES_STORE, PREVIEWS_STORE], 'readonly');
+  const [storedFileKeys, storedPreviewIds] = await Promise.all([
+    request(readTransaction.objectStore(FILES_STORE).getAllKeys()),
+    request(readTransaction.objectStore(PREVIEWS_STORE).getAllKeys()),
+  ]);
+  const storedFiles = new Set(storedFileKeys as string[]);
+  const storedPreviews = new Set(storedPreviewIds as number[]);
+
+  // Rendered previews are only reachable through their object URLs. They are read before
+  // the write transaction starts, since it would close while waiting on anything else.
+  const newPreviews = await Promise.all(
+    images
+      .filter(image => RENDERED_PREVIEW_FORMATS.includes(image.format) && !storedPreviews.has(image.id))
+      .map(async image => [image.id, await (await fetch(image.url)).blob()] as const)
+  );
+
+  const transaction = db.transaction([...IMAGE_STORES, SETTINGS_STORE], 'readwrite');
+  const filesStore = transaction.objectStore(FILES_STORE);
+  const previewsStore = transaction.objectStore(PREVIEWS_STORE);
+  const imagesStore = transaction.objectStore(IMAGES_STORE);
+  const keptFiles = new Set<string>();
+  const keptImages = new Set<number>();
+
+  imagesStore.clear();
+  images.forEach((image, position) => {
+    const fileKey = getFileKey(image.file);
+    if (!storedFiles.has(fileKey) && !keptFiles.has(fileKey)) {
+      filesStore.put(image.file, fileKey);
+    }
+    keptFiles.add(fileKey);
+    keptImages.add(image.id);
+    imagesStore.put({ id: image.id, fileKey, position, details: getImageDetails(image) } satisfies StoredImage);
+  });
+
+  newPreviews.forEach(([id, preview]) => previewsStore.put(preview, id));
+  storedFiles.forEach(fileKey => {
+    if (!keptFiles.has(fileKey)) {
+      filesStore.delete(fileKey);
+    }
+  });
+  storedPreviews.forEach(id => {
+    if (!keptImages.has(id)) {
+      previewsStore.delete(id);
+    }
+  });
+
+  transaction.objectStore(SETTINGS_STORE).put(withoutPasswords(options), OPTIONS_KEY);
+
+  await transactionDone(transaction);
+}
+
+function getFileKey(file: File): string {
+  let key = fileKeys.get(file);
+  if (!key) {
+    key = crypto.randomUUID();
+    fileKeys.set(file, key);
+  }
+  return key;
+}
+
+function getImageDetails(image: ImageFile): ImageDetails {
+  const details: Partial<ImageFile> = { ...image };
+  delete details.file;
+  delete details.url;
+  // Object URLs don't outlive the page; thumbnails are made again after loading
+  delete details.thumbnailUrl;
+  return details as ImageDetails;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+    openRequest.onupgradeneeded = () => {
+      const db = openRequest.result;
+      db.createObjectStore(FILES_STORE);
+      db.createObjectStore(PREVIEWS_STORE);
+      db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+      db.createObjectStore(SETTINGS_STORE);
+    };
+    openRequest.onsuccess = () => resolve(openRequest.result);
+    openRequest.onerror = () => reject(openRequest.error);
+  });
+  // Let a later call try again, e.g. after the user allows storage
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+async function readEntries<K, V>(store: IDBObjectStore): Promise<Map<K, V>> {
+  // Both lists come back in key order
+  const [keys, values] = await Promise.all([request(store.getAllKeys()), request(store.getAll())]);
+  return new Map(keys.map((key, index) => [key as K, values[index] as V]));
+}
+
+function request<T>(idbRequest: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    idbRequest.onsuccess = () => resolve(idbRequest.result);
+    idbRequest.onerror = () => reject(idbRequest.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
@@ -0,0 +1,38 @@
+import { generatePDF } from '../utils/pdfGenerator';
+import type { PdfWorkerRequest, PdfWorkerResponse } from '../types';
+
+let controller: AbortController | null = null;
+
+function post(message: PdfWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = async (event: MessageEvent<PdfWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    controller?.abort();
+    return;
+  }
+
+  const jobController = new AbortController();
+  controller = jobController;
+
+  try {
+    const result = await generatePDF(
+      message.images,
+      message.options,
+      (progress, stage) => post({ type: 'progress', progress, stage }),
+      jobController.signal
+    );
+    post({ type: 'done', result }, result.documents.map(document => document.buffer));
+  } catch (error) {
+    if (jobController.signal.aborted) {
+      post({ type: 'cancelled' });
+    } else {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    controller = null;
+  }
+};
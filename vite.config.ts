@@ -4,6 +4,17 @@ import react from '@vitejs/plugin-react';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The PDF worker loads the HEIC and TIFF decoders on demand, which needs module workers
+  worker: {
+    format: 'es',
+    rollupOptions: {
+      output: {
+        // The OCR engine finds its language data by file name, so that file keeps its name
+        assetFileNames: (asset) =>
+          asset.name?.endsWith('.traineddata.gz') ? 'assets/[name][extname]' : 'assets/[name]-[hash][extname]',
+      },
+    },
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },